@@ -467,9 +467,9 @@ function DevEntry() {
     <AppsSDKUIProvider linkComponent="a">
       <DevContainer
         widgets={[
-          { id: 'carousel', name: 'Pizza Carousel', component: CarouselWidget, dataLoader: () => carouselData.full, emptyDataLoader: () => carouselData.empty },
+          { id: 'carousel', name: 'Pizza Carousel', component: CarouselWidget, dataLoader: carouselData },
           { id: 'map', name: 'Pizza Map', component: MapWidget, dataLoader: () => mapData },
-          { id: 'list', name: 'Pizza List', component: ListWidget, dataLoader: () => listData.full, emptyDataLoader: () => listData.empty },
+          { id: 'list', name: 'Pizza List', component: ListWidget, dataLoader: listData },
           { id: 'album', name: 'Photo Albums', component: AlbumWidget, dataLoader: () => albumData }
         ]}
         loadingDelay={1500}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useOpenAiGlobal, Map, FullscreenMap, Skeleton, Alert, type LocationData } from '@ainativekit/ui';
+import { useOpenAiGlobal, useDisplayMode, Map, FullscreenMap, Skeleton, Alert, type LocationData } from '@ainativekit/ui';
 
 interface MapData {
   type: string;
@@ -13,7 +13,12 @@ interface MapData {
 function MapWidget() {
   const toolOutput = useOpenAiGlobal('toolOutput') as MapData | null;
   const [selectedId, setSelectedId] = useState<string | undefined>(undefined);
-  const [isFullscreen, setIsFullscreen] = useState(false);
+  const isFullscreen = useDisplayMode() === 'fullscreen';
+
+  // The host owns the layout - ask it to switch display modes
+  const setIsFullscreen = (fullscreen: boolean) => {
+    window.openai?.requestDisplayMode({ mode: fullscreen ? 'fullscreen' : 'inline' });
+  };
 
   // Loading state
   if (!toolOutput) {
@@ -56,19 +61,10 @@ function MapWidget() {
   const { locations, center, zoom } = toolOutput;
   const defaultCenter: [number, number] = center ? [center.lat, center.lng] : [37.7749, -122.4194];
 
-  // When fullscreen, render in a fixed position overlay that takes up the entire viewport
+  // When fullscreen, the host renders the widget in its fullscreen overlay
   if (isFullscreen) {
     return (
-      <div
-        style={{
-          position: 'fixed',
-          inset: 0,
-          zIndex: 1000,
-          backgroundColor: 'var(--color-surface)',
-          display: 'flex',
-          flexDirection: 'column',
-        }}
-      >
+      <div style={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
         <div style={{ flex: 1, overflow: 'auto' }}>
           <FullscreenMap
             locations={locations}
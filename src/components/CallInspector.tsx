@@ -0,0 +1,263 @@
+/**
+ * CallInspector - Chronological log of window.openai bridge calls
+ */
+
+import { useMemo, useState } from 'react';
+import type { BridgeCallEntry, BridgeMethod } from '../types';
+import { JsonTree } from './JsonTree';
+import { downloadJson, fileTimestamp } from '../utils/download';
+
+/**
+ * Where the inspector panel is docked
+ */
+export type InspectorDock = 'bottom' | 'right';
+
+export interface CallInspectorProps {
+  /** Recorded bridge calls, oldest first */
+  entries: BridgeCallEntry[];
+  /** Clear all entries */
+  onClear: () => void;
+  /** Current dock position */
+  dock: InspectorDock;
+  /** Change dock position */
+  onDockChange: (dock: InspectorDock) => void;
+  /** Close the panel */
+  onClose: () => void;
+}
+
+const METHODS: BridgeMethod[] = [
+  'callTool',
+  'sendFollowUpMessage',
+  'openExternal',
+  'setWidgetState',
+  'requestDisplayMode',
+];
+
+const METHOD_ICONS: Record<BridgeMethod, string> = {
+  callTool: '🔨',
+  sendFollowUpMessage: '💬',
+  openExternal: '🌐',
+  setWidgetState: '💾',
+  requestDisplayMode: '🖥️',
+};
+
+const STATUS_COLORS: Record<BridgeCallEntry['status'], string> = {
+  pending: 'var(--ai-color-state-info)',
+  resolved: 'var(--ai-color-state-success)',
+  rejected: 'var(--ai-color-state-error)',
+};
+
+const panelButtonStyle: React.CSSProperties = {
+  padding: '3px 8px',
+  borderRadius: '5px',
+  border: '1px solid var(--ai-color-border-heavy)',
+  background: 'var(--ai-color-bg-primary)',
+  color: 'var(--ai-color-text-secondary)',
+  fontSize: '11px',
+  fontWeight: '500',
+  cursor: 'pointer',
+};
+
+function formatTime(timestamp: number) {
+  const date = new Date(timestamp);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+}
+
+function preview(value: unknown) {
+  try {
+    const text = JSON.stringify(value);
+    if (text === undefined) return '';
+    return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+  } catch {
+    return String(value);
+  }
+}
+
+function matchesSearch(entry: BridgeCallEntry, query: string) {
+  if (!query) return true;
+  const haystack = [
+    entry.method,
+    entry.widgetId,
+    entry.error ?? '',
+    preview(entry.args),
+    preview(entry.result),
+  ].join(' ').toLowerCase();
+  return haystack.includes(query.toLowerCase());
+}
+
+function CallEntryRow({ entry }: { entry: BridgeCallEntry }) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div style={{ borderBottom: '1px solid var(--ai-color-border-light)' }}>
+      <div
+        onClick={() => setExpanded(!expanded)}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          padding: '6px 12px',
+          cursor: 'pointer',
+          fontSize: '12px',
+          color: 'var(--ai-color-text-primary)',
+        }}
+      >
+        <span style={{
+          width: '8px',
+          height: '8px',
+          borderRadius: '50%',
+          flexShrink: 0,
+          background: STATUS_COLORS[entry.status],
+        }} />
+        <span style={{ color: 'var(--ai-color-text-tertiary)', fontFamily: 'monospace', fontSize: '11px' }}>
+          {formatTime(entry.timestamp)}
+        </span>
+        <span style={{ fontWeight: '600' }}>
+          {METHOD_ICONS[entry.method]} {entry.method}
+        </span>
+        <span style={{
+          flex: 1,
+          minWidth: 0,
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap',
+          color: 'var(--ai-color-text-secondary)',
+          fontFamily: 'monospace',
+          fontSize: '11px',
+        }}>
+          {preview(entry.args)}
+        </span>
+        <span style={{ color: 'var(--ai-color-text-tertiary)', fontSize: '11px' }}>
+          {entry.widgetId}
+        </span>
+        <span style={{ color: 'var(--ai-color-text-tertiary)', fontSize: '11px', minWidth: '48px', textAlign: 'right' }}>
+          {entry.duration !== undefined ? `${Math.round(entry.duration)}ms` : '…'}
+        </span>
+      </div>
+      {expanded && (
+        <div style={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '6px',
+          padding: '4px 12px 10px 28px',
+        }}>
+          <JsonTree label="args" data={entry.args} />
+          {entry.status === 'resolved' && <JsonTree label="result" data={entry.result} />}
+          {entry.status === 'rejected' && (
+            <div style={{ color: 'var(--ai-color-state-error)', fontFamily: 'monospace', fontSize: '11px' }}>
+              error: {entry.error}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function CallInspector({ entries, onClear, dock, onDockChange, onClose }: CallInspectorProps) {
+  const [enabledMethods, setEnabledMethods] = useState<BridgeMethod[]>(METHODS);
+  const [query, setQuery] = useState('');
+
+  const visibleEntries = useMemo(
+    () => entries.filter(entry => enabledMethods.includes(entry.method) && matchesSearch(entry, query)),
+    [entries, enabledMethods, query]
+  );
+
+  const toggleMethod = (method: BridgeMethod) => {
+    setEnabledMethods(current =>
+      current.includes(method) ? current.filter(m => m !== method) : [...current, method]
+    );
+  };
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      background: 'var(--ai-color-bg-primary)',
+      ...(dock === 'bottom'
+        ? { borderTop: '1px solid var(--ai-color-border-default)', height: '280px' }
+        : { borderLeft: '1px solid var(--ai-color-border-default)', width: '420px', height: '100%' }),
+    }}>
+      {/* Header */}
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '6px',
+        flexWrap: 'wrap',
+        padding: '8px 12px',
+        borderBottom: '1px solid var(--ai-color-border-default)',
+      }}>
+        <span style={{ fontSize: '12px', fontWeight: '600', color: 'var(--ai-color-text-primary)', marginRight: '4px' }}>
+          Calls ({visibleEntries.length}/{entries.length})
+        </span>
+        {METHODS.map(method => {
+          const enabled = enabledMethods.includes(method);
+          return (
+            <button
+              key={method}
+              onClick={() => toggleMethod(method)}
+              title={`${enabled ? 'Hide' : 'Show'} ${method} calls`}
+              style={{
+                ...panelButtonStyle,
+                borderColor: enabled ? 'var(--ai-color-state-info)' : 'var(--ai-color-border-heavy)',
+                background: enabled ? 'var(--ai-color-state-info-bg)' : 'var(--ai-color-bg-primary)',
+                color: enabled ? 'var(--ai-color-state-info)' : 'var(--ai-color-text-tertiary)',
+              }}
+            >
+              {METHOD_ICONS[method]}
+            </button>
+          );
+        })}
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Filter…"
+          style={{
+            flex: 1,
+            minWidth: '80px',
+            padding: '3px 8px',
+            borderRadius: '5px',
+            border: '1px solid var(--ai-color-border-heavy)',
+            background: 'var(--ai-color-bg-primary)',
+            color: 'var(--ai-color-text-primary)',
+            fontSize: '11px',
+            outline: 'none',
+          }}
+        />
+        <button
+          onClick={() => onDockChange(dock === 'bottom' ? 'right' : 'bottom')}
+          title={`Dock to ${dock === 'bottom' ? 'right' : 'bottom'}`}
+          style={panelButtonStyle}
+        >
+          {dock === 'bottom' ? '⇥' : '⤓'}
+        </button>
+        <button
+          onClick={() => downloadJson(`devtools-calls-${fileTimestamp()}.json`, entries)}
+          disabled={entries.length === 0}
+          title="Export log as JSON"
+          style={panelButtonStyle}
+        >
+          Export
+        </button>
+        <button onClick={onClear} disabled={entries.length === 0} style={panelButtonStyle}>
+          Clear
+        </button>
+        <button onClick={onClose} title="Close inspector" style={panelButtonStyle}>
+          ✕
+        </button>
+      </div>
+
+      {/* Entries */}
+      <div style={{ flex: 1, overflowY: 'auto' }}>
+        {visibleEntries.length === 0 ? (
+          <div style={{ padding: '16px', fontSize: '12px', color: 'var(--ai-color-text-tertiary)', textAlign: 'center' }}>
+            {entries.length === 0 ? 'No bridge calls yet' : 'No calls match the current filter'}
+          </div>
+        ) : (
+          visibleEntries.map(entry => <CallEntryRow key={entry.id} entry={entry} />)
+        )}
+      </div>
+    </div>
+  );
+}
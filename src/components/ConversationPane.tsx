@@ -0,0 +1,197 @@
+/**
+ * ConversationPane - Simulated transcript for sendFollowUpMessage flows
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { ConversationTurn } from '../types';
+import { JsonTree } from './JsonTree';
+
+export interface ConversationPaneProps {
+  /** Conversation turns, oldest first */
+  turns: ConversationTurn[];
+  /** Names of the data sources that can answer a follow-up */
+  sources: string[];
+  /** Answer the pending follow-up with a data source */
+  onRespond: (source: string) => void;
+  /** Clear the transcript */
+  onClear: () => void;
+  /** Close the pane */
+  onClose: () => void;
+  /** Whether an answer is currently loading */
+  isResponding?: boolean;
+}
+
+const paneButtonStyle: React.CSSProperties = {
+  padding: '3px 8px',
+  borderRadius: '5px',
+  border: '1px solid var(--ai-color-border-heavy)',
+  background: 'var(--ai-color-bg-primary)',
+  color: 'var(--ai-color-text-secondary)',
+  fontSize: '11px',
+  fontWeight: '500',
+  cursor: 'pointer',
+};
+
+function Turn({ turn }: { turn: ConversationTurn }) {
+  const isUser = turn.role === 'user';
+
+  return (
+    <div style={{
+      alignSelf: isUser ? 'flex-end' : 'flex-start',
+      maxWidth: '90%',
+      padding: '8px 12px',
+      borderRadius: '14px',
+      background: isUser ? 'var(--ai-color-bg-tertiary)' : 'transparent',
+      border: isUser ? 'none' : '1px solid var(--ai-color-border-default)',
+      color: 'var(--ai-color-text-primary)',
+      fontSize: '13px',
+      lineHeight: '18px',
+    }}>
+      {isUser ? (
+        turn.prompt
+      ) : (
+        <>
+          <div style={{ fontSize: '11px', color: 'var(--ai-color-text-tertiary)', marginBottom: '4px' }}>
+            🔧 toolOutput from <strong>{turn.source}</strong>
+          </div>
+          <JsonTree data={turn.toolOutput} defaultExpandDepth={0} />
+        </>
+      )}
+    </div>
+  );
+}
+
+export function ConversationPane({
+  turns,
+  sources,
+  onRespond,
+  onClear,
+  onClose,
+  isResponding = false,
+}: ConversationPaneProps) {
+  const [selectedSource, setSelectedSource] = useState(sources[0] ?? '');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const lastTurn = turns[turns.length - 1];
+  const awaitingAnswer = lastTurn?.role === 'user';
+
+  // Keep the selection valid when the available sources change
+  useEffect(() => {
+    if (!sources.includes(selectedSource)) {
+      setSelectedSource(sources[0] ?? '');
+    }
+  }, [sources, selectedSource]);
+
+  // Scroll to the newest turn
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [turns.length]);
+
+  return (
+    <div style={{
+      width: '320px',
+      flexShrink: 0,
+      display: 'flex',
+      flexDirection: 'column',
+      maxHeight: 'calc(100vh - 32px)',
+      border: '1px solid var(--ai-color-border-default)',
+      borderRadius: '16px',
+      background: 'var(--ai-color-bg-primary)',
+      overflow: 'hidden',
+    }}>
+      {/* Header */}
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '6px',
+        padding: '8px 12px',
+        borderBottom: '1px solid var(--ai-color-border-default)',
+      }}>
+        <span style={{ flex: 1, fontSize: '12px', fontWeight: '600', color: 'var(--ai-color-text-primary)' }}>
+          💬 Conversation
+        </span>
+        <button onClick={onClear} disabled={turns.length === 0} style={paneButtonStyle}>
+          Clear
+        </button>
+        <button onClick={onClose} title="Close conversation" style={paneButtonStyle}>
+          ✕
+        </button>
+      </div>
+
+      {/* Transcript */}
+      <div style={{
+        flex: 1,
+        overflowY: 'auto',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        padding: '12px',
+      }}>
+        {turns.length === 0 ? (
+          <div style={{ fontSize: '12px', color: 'var(--ai-color-text-tertiary)', textAlign: 'center', padding: '16px 0' }}>
+            Follow-up messages sent with <code>sendFollowUpMessage</code> appear here
+          </div>
+        ) : (
+          turns.map(turn => <Turn key={turn.id} turn={turn} />)
+        )}
+        <div ref={endRef} />
+      </div>
+
+      {/* Answer composer */}
+      {awaitingAnswer && (
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          padding: '8px 12px',
+          borderTop: '1px solid var(--ai-color-border-default)',
+        }}>
+          {sources.length === 0 ? (
+            <span style={{ fontSize: '11px', color: 'var(--ai-color-text-tertiary)' }}>
+              No data sources available to answer with
+            </span>
+          ) : (
+            <>
+              <select
+                value={selectedSource}
+                onChange={(e) => setSelectedSource(e.target.value)}
+                title="Data source for the next assistant turn"
+                style={{
+                  flex: 1,
+                  minWidth: 0,
+                  padding: '4px 8px',
+                  borderRadius: '6px',
+                  border: '1px solid var(--ai-color-border-heavy)',
+                  background: 'var(--ai-color-bg-primary)',
+                  color: 'var(--ai-color-text-primary)',
+                  fontSize: '12px',
+                  outline: 'none',
+                }}
+              >
+                {sources.map(source => (
+                  <option key={source} value={source}>
+                    📊 {source}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => onRespond(selectedSource)}
+                disabled={isResponding || !selectedSource}
+                style={{
+                  ...paneButtonStyle,
+                  border: 'none',
+                  background: 'var(--ai-color-state-info)',
+                  color: 'var(--ai-color-brand-on-primary)',
+                  opacity: isResponding ? 0.5 : 1,
+                  cursor: isResponding ? 'default' : 'pointer',
+                }}
+              >
+                {isResponding ? '⏳' : 'Respond'}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
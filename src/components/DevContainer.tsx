@@ -1,6 +1,52 @@
 import React, { useEffect, useState, useMemo } from 'react';
-import { SetGlobalsEvent, AppsSDKUIProvider, type OpenAiGlobals, type Theme } from '@ainativekit/ui';
-import type { DevContainerProps, Widget } from '../types';
+import { SetGlobalsEvent, AppsSDKUIProvider, type DisplayMode, type OpenAiGlobals, type Theme } from '@ainativekit/ui';
+import {
+  DEVICE_PROFILES,
+  DEVTOOLS_STATE_EVENT_TYPE,
+  LOCALE_PRESETS,
+  MAX_HEIGHT_PRESETS,
+  NETWORK_PROFILES,
+  type BridgeMethod,
+  type ConversationTurn,
+  type DataLoader,
+  type DevContainerProps,
+  type DeviceProfile,
+  type NetworkProfile,
+  type OpenExternalMode,
+  type OpenExternalResult,
+  type OverflowMode,
+  type SessionControls,
+  type SessionRecording,
+  type Timeline,
+  type ToolHandlers,
+  type Widget,
+  type WidgetState,
+} from '../types';
+import { runToolHandler } from '../utils/toolHandlers';
+import { loadWidgetState, saveWidgetState } from '../utils/widgetStateStorage';
+import { isRtlLocale, pseudoLocalize } from '../utils/locale';
+import { expandDataLoaders, resolveToolInput, toDataLoaderConfig } from '../utils/dataLoaders';
+import { checkExternalUrl } from '../utils/openExternal';
+import { toSafeArea, toUserAgent } from '../utils/deviceProfiles';
+import { isToolResult, splitToolResult, toolResult } from '../utils/toolResults';
+import { ERROR_FIXTURES, resolveErrorFixture } from '../utils/errorFixtures';
+import { simulateRequest, TIMEOUT_ERROR } from '../utils/network';
+import { importMcpRecordings, toRecordedDataLoaders } from '../utils/mcpRecordings';
+import { readDroppedFiles } from '../utils/droppedFiles';
+import { createBridgeResponder, playSession } from '../utils/sessionReplay';
+import { downloadJson, fileTimestamp } from '../utils/download';
+import { isTimeline, playTimeline, type TimelinePlayer, type TimelineStatus } from '../utils/timeline';
+import { useBridgeCallLog } from '../hooks/useBridgeCallLog';
+import { useElementHeight } from '../hooks/useElementHeight';
+import { useSessionRecorder } from '../hooks/useSessionRecorder';
+import { CallInspector, type InspectorDock } from './CallInspector';
+import { HostChrome, FULLSCREEN_CHROME_HEIGHT } from './HostChrome';
+import { ConversationPane } from './ConversationPane';
+import { ExternalLinkDialog } from './ExternalLinkDialog';
+import { ErrorFixtureMenu } from './ErrorFixtureMenu';
+import { TimelineControls } from './TimelineControls';
+import { SessionRecorderControls } from './SessionRecorderControls';
+import { ToolOutputEditor, type ToolData, type ToolDataField } from './ToolOutputEditor';
 import '../styles/devtools-theme.css';
 
 /**
@@ -102,6 +148,7 @@ export function DevContainer({
   children,
   dataLoader,
   emptyDataLoader,
+  widgetId = 'default',
 
   // Multi-widget props
   widgets,
@@ -109,11 +156,23 @@ export function DevContainer({
   emptyDataLoaders,
   defaultDataLoader,
   defaultWidget,
+  toolInput,
+  followUpSources: followUpSourcesProp,
+  openExternal: openExternalConfig,
+  deviceProfiles,
+  defaultDevice = 'desktop',
+  toolHandlers,
+  errorFixtures,
+  defaultErrorFixture,
 
   // Common props
   loadingDelay = 2000,
+  networkProfiles,
+  defaultNetworkProfile = 'default',
   theme: initialTheme = 'light',
+  locale: initialLocale = 'en-US',
   autoLoad = true,
+  showDevTools = true,
 }: DevContainerProps) {
   // Normalize to multi-widget structure for consistent handling
   const normalizedWidgets = useMemo((): Widget[] => {
@@ -121,10 +180,10 @@ export function DevContainer({
       return widgets;
     }
     if (children) {
-      return [{ id: 'default', name: 'App', component: () => children as React.ReactElement }];
+      return [{ id: widgetId, name: 'App', component: () => children as React.ReactElement }];
     }
     return [];
-  }, [widgets, children]);
+  }, [widgets, children, widgetId]);
 
   const normalizedDataLoaders = useMemo(() => {
     if (dataLoaders) return dataLoaders;
@@ -140,9 +199,8 @@ export function DevContainer({
 
   // State
   const [isInitialized, setIsInitialized] = useState(false);
-  const [widgetState, setWidgetState] = useState<'loading' | 'data' | 'error' | 'empty'>('loading');
+  const [widgetState, setWidgetState] = useState<WidgetState>('loading');
   const [isLoading, setIsLoading] = useState(false);
-  const [showDevTools] = useState(true);
   const [showAdvancedSettings, setShowAdvancedSettings] = useState(true);
   const [activeWidgetId, setActiveWidgetId] = useState(defaultWidget || normalizedWidgets[0]?.id || '');
   const [activeDataLoader, setActiveDataLoader] = useState(() => {
@@ -155,9 +213,121 @@ export function DevContainer({
 
   // Interactive controls state
   const [mockTheme, setMockTheme] = useState<Theme>(initialTheme);
-  const [deviceType, setDeviceType] = useState<'desktop' | 'tablet' | 'mobile'>('desktop');
-  const [viewportWidth, setViewportWidth] = useState<number>(768);
+  const allDeviceProfiles: Record<string, DeviceProfile> = { ...DEVICE_PROFILES, ...deviceProfiles };
+  const [deviceId, setDeviceId] = useState(() => (allDeviceProfiles[defaultDevice] ? defaultDevice : 'desktop'));
+  const deviceProfile = allDeviceProfiles[deviceId] ?? DEVICE_PROFILES.desktop;
+  const deviceType = deviceProfile.type;
+  const viewportWidth = deviceProfile.width;
+  const deviceCapabilities = toUserAgent(deviceProfile).capabilities;
+  const safeAreaInsets = toSafeArea(deviceProfile).insets;
+  const allNetworkProfiles: Record<string, NetworkProfile> = {
+    default: { label: `Default (${loadingDelay}ms)`, latency: loadingDelay },
+    ...NETWORK_PROFILES,
+    ...networkProfiles,
+  };
+  const [networkProfileId, setNetworkProfileId] = useState(() => (allNetworkProfiles[defaultNetworkProfile] ? defaultNetworkProfile : 'default'));
+  const networkProfile = allNetworkProfiles[networkProfileId] ?? allNetworkProfiles.default;
   const [showBorder, setShowBorder] = useState<boolean>(true); // ChatGPT adds border by default (widgetPrefersBorder)
+  const [displayMode, setDisplayMode] = useState<DisplayMode>('inline');
+  const [maxHeightSetting, setMaxHeightSetting] = useState<'auto' | number>('auto');
+  const [overflowMode, setOverflowMode] = useState<OverflowMode>('scroll');
+  const [locale, setLocale] = useState(initialLocale);
+  const [pseudoLocalization, setPseudoLocalization] = useState(false);
+  const [currentToolInput, setCurrentToolInput] = useState<Record<string, unknown>>({});
+  const [showConversation, setShowConversation] = useState(false);
+  const [showDataEditor, setShowDataEditor] = useState(false);
+  const [selectedErrorFixture, setSelectedErrorFixture] = useState<string | null>(null);
+  const [timelineStatus, setTimelineStatus] = useState<TimelineStatus | null>(null);
+  const timelinePlayerRef = React.useRef<TimelinePlayer | null>(null);
+  // Cancels the load in flight when a newer one starts
+  const loadControllerRef = React.useRef<AbortController | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  // Data published to the widget, and the last data published by a loader or tool call
+  const [toolData, setToolData] = useState<ToolData>({ toolOutput: null, toolResponseMetadata: null });
+  const [loadedToolData, setLoadedToolData] = useState<ToolData>({ toolOutput: null, toolResponseMetadata: null });
+  // Data sources saved from the editor, per widget, until reload
+  const [sessionDataLoaders, setSessionDataLoaders] = useState<Record<string, Record<string, DataLoader>>>({});
+  const [conversation, setConversation] = useState<ConversationTurn[]>([]);
+  const [isResponding, setIsResponding] = useState(false);
+  const nextTurnIdRef = React.useRef(1);
+  const [openExternalMode, setOpenExternalMode] = useState<OpenExternalMode>(openExternalConfig?.mode ?? 'confirm');
+  const [pendingExternalLink, setPendingExternalLink] = useState<{ href: string; resolve: (confirmed: boolean) => void } | null>(null);
+  const pendingExternalLinkRef = React.useRef(pendingExternalLink);
+
+  // openExternal settings read by the mocked bridge at call time
+  const openExternalModeRef = React.useRef(openExternalMode);
+  openExternalModeRef.current = openExternalMode;
+  const allowedDomainsRef = React.useRef(openExternalConfig?.allowedDomains);
+  allowedDomainsRef.current = openExternalConfig?.allowedDomains;
+
+  // Ask for confirmation in the dialog; a newer request cancels the pending one
+  const confirmExternalLink = (href: string) => new Promise<boolean>(resolve => {
+    pendingExternalLinkRef.current?.resolve(false);
+    const pending = {
+      href,
+      resolve: (confirmed: boolean) => {
+        pendingExternalLinkRef.current = null;
+        setPendingExternalLink(null);
+        resolve(confirmed);
+      },
+    };
+    pendingExternalLinkRef.current = pending;
+    setPendingExternalLink(pending);
+  });
+  const [windowHeight, setWindowHeight] = useState(() => (typeof window !== 'undefined' ? window.innerHeight : 800));
+
+  // Measure widget content against maxHeight
+  const [widgetContentRef, contentHeight] = useElementHeight();
+  const [showInspector, setShowInspector] = useState(false);
+  const [inspectorDock, setInspectorDock] = useState<InspectorDock>(() => {
+    const saved = typeof window !== 'undefined' ? localStorage.getItem('devtools.inspectorDock') : null;
+    return saved === 'right' ? 'right' : 'bottom';
+  });
+
+  // Bridge call log for the inspector panel
+  const activeWidgetIdRef = React.useRef(activeWidgetId);
+  activeWidgetIdRef.current = activeWidgetId;
+  const callLog = useBridgeCallLog(() => activeWidgetIdRef.current);
+
+  // Session recording and replay - a replay answers bridge calls from the recording
+  const sessionRecorder = useSessionRecorder();
+  const [replayProgress, setReplayProgress] = useState<{ played: number; total: number } | null>(null);
+  const sessionReplayRef = React.useRef<{ respond: (method: BridgeMethod, args: unknown) => unknown; stop: () => void } | null>(null);
+
+  // Log a bridge call, answering it from the replayed session if any, and record it with its result
+  const trackBridgeCall = async <T,>(method: BridgeMethod, args: unknown, implementation: () => T | Promise<T>): Promise<T> => {
+    const replay = sessionReplayRef.current;
+    const startedAt = Date.now();
+    try {
+      const result = await callLog.track(method, args, replay ? () => replay.respond(method, args) as T : implementation);
+      sessionRecorder.record({ type: 'bridgeCall', method, args, result }, startedAt);
+      return result;
+    } catch (error) {
+      sessionRecorder.record(
+        { type: 'bridgeCall', method, args, error: error instanceof Error ? error.message : String(error) },
+        startedAt
+      );
+      throw error;
+    }
+  };
+
+  // Current device for host decisions made inside the mocked bridge
+  const deviceTypeRef = React.useRef(deviceType);
+  deviceTypeRef.current = deviceType;
+
+  // Apply a display mode request the way the host does (mobile coerces PiP to fullscreen)
+  const grantDisplayMode = (mode: DisplayMode): DisplayMode => {
+    const granted = mode === 'pip' && deviceTypeRef.current === 'mobile' ? 'fullscreen' : mode;
+    setDisplayMode(granted);
+    return granted;
+  };
+
+  // Tool handlers for the active widget - read by the mocked callTool at call time
+  const toolHandlersRef = React.useRef<ToolHandlers | undefined>(undefined);
+  const activeWidgetToolHandlers = normalizedWidgets.find(w => w.id === activeWidgetId)?.toolHandlers;
+  toolHandlersRef.current = toolHandlers || activeWidgetToolHandlers
+    ? { ...toolHandlers, ...activeWidgetToolHandlers }
+    : undefined;
 
   // Show widget selector only if there are multiple widgets
   const showWidgetSelector = normalizedWidgets.length > 1;
@@ -208,6 +378,11 @@ export function DevContainer({
     }
   }, [activeDataLoader]);
 
+  // Persist inspector dock position to localStorage
+  useEffect(() => {
+    localStorage.setItem('devtools.inspectorDock', inspectorDock);
+  }, [inspectorDock]);
+
   // Auto-load data when data loader changes (with loading delay)
   const prevDataLoaderRef = React.useRef(activeDataLoader);
   useEffect(() => {
@@ -250,24 +425,55 @@ export function DevContainer({
     document.body.style.backgroundColor = 'var(--ai-color-bg-primary)';
   }, [mockTheme]);
 
-  // Set globals helper
-  const setGlobals = (globals: Partial<OpenAiGlobals>) => {
+  // Untransformed toolOutput, so pseudo-localization can be toggled on the current data
+  const rawToolOutputRef = React.useRef<unknown>(null);
+  const pseudoLocalizationRef = React.useRef(pseudoLocalization);
+  pseudoLocalizationRef.current = pseudoLocalization;
+
+  // Keep the editor in sync with published tool data
+  const trackToolData = (globals: Partial<OpenAiGlobals>, preserveOriginal: boolean) => {
+    if ('toolOutput' in globals || 'toolResponseMetadata' in globals) {
+      const update: Partial<ToolData> = {};
+      if ('toolOutput' in globals) update.toolOutput = globals.toolOutput;
+      if ('toolResponseMetadata' in globals) update.toolResponseMetadata = globals.toolResponseMetadata;
+      setToolData(data => ({ ...data, ...update }));
+      if (!preserveOriginal) {
+        setLoadedToolData(data => ({ ...data, ...update }));
+      }
+    }
+  };
+
+  // Write globals to window.openai and notify the widget
+  const dispatchGlobals = (globals: Partial<OpenAiGlobals>) => {
     if (!window.openai) {
       (window as any).openai = {};
     }
     Object.assign(window.openai as any, globals);
     const event = new SetGlobalsEvent({ globals });
     window.dispatchEvent(event);
+    sessionRecorder.record({ type: 'globals', globals });
   };
 
-  // Get userAgent based on device type
-  const getUserAgent = (device: 'desktop' | 'tablet' | 'mobile') => ({
-    device: { type: device },
-    capabilities: {
-      hover: device === 'desktop',
-      touch: device !== 'desktop'
+  // Snapshot of the current globals, without the bridge functions
+  const snapshotGlobals = (): Partial<OpenAiGlobals> => Object.fromEntries(
+    Object.entries(window.openai ?? {}).filter(([, value]) => typeof value !== 'function')
+  );
+
+  // Set globals helper
+  // `preserveOriginal` keeps the loaded data that the editor reverts to (editor changes, re-publishing)
+  const setGlobals = (globals: Partial<OpenAiGlobals>, { preserveOriginal = false } = {}) => {
+    // During a replay only the recorded globals reach the widget
+    if (sessionReplayRef.current) return;
+
+    trackToolData(globals, preserveOriginal);
+    if ('toolOutput' in globals) {
+      rawToolOutputRef.current = globals.toolOutput;
+      if (pseudoLocalizationRef.current) {
+        globals = { ...globals, toolOutput: pseudoLocalize(globals.toolOutput) };
+      }
     }
-  });
+    dispatchGlobals(globals);
+  };
 
   // Initialize window.openai
   useEffect(() => {
@@ -275,28 +481,75 @@ export function DevContainer({
 
     // Create mock window.openai
     (window as any).openai = {
-      callTool: async (name: string, args: any) => {
-        console.log('🔨 Mock callTool:', { name, args });
-        return { success: true, data: 'Mock response' };
-      },
-      sendFollowUpMessage: async ({ prompt }: { prompt: string }) => {
-        console.log('💬 Mock sendFollowUpMessage:', prompt);
-        return { success: true };
-      },
-      openExternal: ({ href }: { href: string }) => {
-        console.log('🌐 Mock openExternal:', href);
-        window.open(href, '_blank');
-      },
-      setWidgetState: (state: any) => {
-        console.log('💾 Mock setWidgetState:', state);
-      },
+      callTool: (name: string, args: Record<string, unknown> = {}) =>
+        trackBridgeCall('callTool', { name, args }, async () => {
+          console.log('🔨 Mock callTool:', { name, args });
+          const handlers = toolHandlersRef.current;
+          if (!handlers) {
+            return { success: true, data: 'Mock response' };
+          }
+          try {
+            const result = await runToolHandler(name, args, handlers, {
+              globals: snapshotGlobals(),
+              setGlobals,
+            });
+            console.log('✅ Tool result:', { name, result });
+            return result;
+          } catch (error) {
+            console.error('❌ Tool call failed:', { name, error });
+            throw error;
+          }
+        }),
+      sendFollowUpMessage: ({ prompt }: { prompt: string }) =>
+        trackBridgeCall('sendFollowUpMessage', { prompt }, () => {
+          console.log('💬 Mock sendFollowUpMessage:', prompt);
+          setConversation(turns => [
+            ...turns,
+            { id: nextTurnIdRef.current++, role: 'user', prompt, timestamp: Date.now() },
+          ]);
+          return { success: true };
+        }),
+      openExternal: ({ href }: { href: string }) =>
+        trackBridgeCall('openExternal', { href }, async (): Promise<OpenExternalResult> => {
+          console.log('🌐 Mock openExternal:', href);
+          const check = checkExternalUrl(href, allowedDomainsRef.current);
+          if (!check.allowed) {
+            console.warn(`⚠️ openExternal ${check.result.outcome}: ${check.result.reason}`, href);
+            return check.result;
+          }
+
+          const mode = openExternalModeRef.current;
+          if (mode === 'log') {
+            return { href, outcome: 'logged' };
+          }
+          if (mode === 'confirm' && !(await confirmExternalLink(href))) {
+            return { href, outcome: 'cancelled' };
+          }
+
+          window.open(check.url.href, '_blank', 'noopener,noreferrer');
+          return { href, outcome: 'opened' };
+        }),
+      setWidgetState: (state: Record<string, unknown> | null) =>
+        trackBridgeCall('setWidgetState', state, () => {
+          console.log('💾 Mock setWidgetState:', state);
+          saveWidgetState(activeWidgetIdRef.current, state);
+          setGlobals({ widgetState: state });
+        }),
+      requestDisplayMode: ({ mode }: { mode: DisplayMode }) =>
+        trackBridgeCall('requestDisplayMode', { mode }, () => {
+          console.log('🖥️ Mock requestDisplayMode:', mode);
+          return { mode: grantDisplayMode(mode) };
+        }),
       theme: mockTheme,
+      toolInput: {},
       toolOutput: null,
       toolResponseMetadata: null,
-      widgetState: 'loading',
-      locale: 'en-US',
-      maxHeight: 600,
-      userAgent: getUserAgent(deviceType)
+      widgetState: loadWidgetState(activeWidgetIdRef.current),
+      locale,
+      maxHeight,
+      displayMode,
+      userAgent: toUserAgent(deviceProfile),
+      safeArea: toSafeArea(deviceProfile)
     };
 
     setIsInitialized(true);
@@ -313,24 +566,91 @@ export function DevContainer({
     setGlobals({ theme: mockTheme });
   }, [mockTheme]);
 
-  // Update widgetState in window.openai
+  // Update locale
   useEffect(() => {
-    if ((window as any).openai) {
-      (window as any).openai.widgetState = widgetState;
-      // Dispatch event so widgets can react
-      window.dispatchEvent(new CustomEvent('openai:widgetState', { detail: widgetState }));
-    }
+    setGlobals({ locale });
+  }, [locale]);
+
+  // Re-apply the current toolOutput when pseudo-localization is toggled
+  useEffect(() => {
+    if (!isInitialized) return;
+    setGlobals({ toolOutput: rawToolOutputRef.current as OpenAiGlobals['toolOutput'] }, { preserveOriginal: true });
+  }, [pseudoLocalization]);
+
+  // Update display mode
+  useEffect(() => {
+    setGlobals({ displayMode });
+  }, [displayMode]);
+
+  // Resolve maxHeight: explicit setting, or the preset for the current device and display mode
+  const presetMaxHeight = displayMode === 'fullscreen'
+    ? (deviceProfile.height ?? windowHeight) - FULLSCREEN_CHROME_HEIGHT
+    : MAX_HEIGHT_PRESETS[deviceType][displayMode];
+  const maxHeight = maxHeightSetting === 'auto' ? presetMaxHeight : maxHeightSetting;
+  const overflowAmount = Math.max(0, contentHeight - maxHeight);
+
+  // Track window height for the fullscreen maxHeight
+  useEffect(() => {
+    const handleResize = () => setWindowHeight(window.innerHeight);
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // Update maxHeight
+  useEffect(() => {
+    setGlobals({ maxHeight });
+  }, [maxHeight]);
+
+  // Close fullscreen with Escape, like the host
+  useEffect(() => {
+    if (displayMode !== 'fullscreen') return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setDisplayMode('inline');
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [displayMode]);
+
+  // Expose devtools state on its own channel (window.openai.widgetState belongs to the widget)
+  useEffect(() => {
+    window.openaiDevtools = { ...window.openaiDevtools, widgetState };
+    window.dispatchEvent(new CustomEvent(DEVTOOLS_STATE_EVENT_TYPE, { detail: { widgetState } }));
   }, [widgetState]);
 
-  // Update device type
+  // Cancel the load in flight and stop timeline and session playback on unmount
+  useEffect(() => () => {
+    loadControllerRef.current?.abort();
+    timelinePlayerRef.current?.stop();
+    sessionReplayRef.current?.stop();
+  }, []);
+
+  // Rehydrate the persisted Apps SDK widget state when the active widget changes
+  useEffect(() => {
+    if (!isInitialized) return;
+    setGlobals({ widgetState: loadWidgetState(activeWidgetId) });
+  }, [activeWidgetId, isInitialized]);
+
+  const handleClearWidgetState = () => {
+    console.log('🧹 Clearing widget state for', activeWidgetId);
+    saveWidgetState(activeWidgetId, null);
+    setGlobals({ widgetState: null });
+  };
+
+  // Update device profile
   useEffect(() => {
-    const widths = { desktop: 768, tablet: 576, mobile: 380 };
-    setViewportWidth(widths[deviceType]);
-    setGlobals({ userAgent: getUserAgent(deviceType) });
-  }, [deviceType]);
+    setGlobals({ userAgent: toUserAgent(deviceProfile), safeArea: toSafeArea(deviceProfile) });
+    // The host never shows PiP on mobile
+    if (deviceType === 'mobile') {
+      setDisplayMode(mode => (mode === 'pip' ? 'fullscreen' : mode));
+    }
+  }, [deviceId]);
 
-  // Get the data loaders available for the current widget
-  const getWidgetDataLoaders = () => {
+  // Get the data loaders declared for the current widget, before mock data variants are expanded
+  const getRawDataLoaders = (): Record<string, DataLoader> => {
     const widget = normalizedWidgets.find(w => w.id === activeWidgetId);
     // Priority: widget.dataLoaders > widget.dataLoader (single) > global dataLoaders
     if (widget?.dataLoaders && Object.keys(widget.dataLoaders).length > 0) {
@@ -342,16 +662,27 @@ export function DevContainer({
     return normalizedDataLoaders;
   };
 
+  // Get the data loaders declared for the current widget, with one entry per mock data variant
+  const getDeclaredDataLoaders = () => expandDataLoaders(getRawDataLoaders()).loaders;
+
+  // Get the data loaders available for the current widget, including those saved from the editor
+  const getWidgetDataLoaders = (): Record<string, DataLoader> => ({
+    ...getDeclaredDataLoaders(),
+    ...sessionDataLoaders[activeWidgetId],
+  });
+
   // Get the empty loaders available for the current widget
-  const getWidgetEmptyLoaders = () => {
+  // Explicit empty loaders win over the empty state of mock data loaders
+  const getWidgetEmptyLoaders = (): Record<string, DataLoader> => {
     const widget = normalizedWidgets.find(w => w.id === activeWidgetId);
+    const mockEmptyLoaders = expandDataLoaders(getRawDataLoaders()).emptyLoaders;
     if (widget?.emptyDataLoaders && Object.keys(widget.emptyDataLoaders).length > 0) {
-      return widget.emptyDataLoaders;
+      return { ...mockEmptyLoaders, ...widget.emptyDataLoaders };
     }
     if (widget?.emptyDataLoader) {
-      return { default: widget.emptyDataLoader };
+      return { ...mockEmptyLoaders, default: widget.emptyDataLoader };
     }
-    return normalizedEmptyLoaders;
+    return { ...mockEmptyLoaders, ...normalizedEmptyLoaders };
   };
 
   // Get default data loader for the current widget
@@ -392,56 +723,174 @@ export function DevContainer({
     return widgetEmptyLoaders[effectiveActiveDataLoader];
   };
 
+  // Publish loaded data - tool results are split into toolOutput and toolResponseMetadata
+  const publishToolResult = (data: unknown) => {
+    const { globals, content } = splitToolResult(data);
+    if (content) {
+      console.log('📝 Model-facing content (not exposed to the widget):', content);
+    }
+    setGlobals(globals);
+    return globals;
+  };
+
+  // Stop the playing timeline, if any
+  const stopTimeline = () => {
+    timelinePlayerRef.current?.stop();
+    timelinePlayerRef.current = null;
+    setTimelineStatus(null);
+  };
+
+  // Play a timeline - each step is published through setGlobals at its time offset
+  const startTimeline = (timeline: Timeline, onToolOutput?: (toolOutput: unknown) => void) => {
+    stopTimeline();
+    console.log('🎞️ Playing timeline');
+    setGlobals({ toolOutput: null, toolResponseMetadata: null });
+    timelinePlayerRef.current = playTimeline(timeline, {
+      onStep: ({ at, ...globals }, index) => {
+        console.log(`🎞️ Timeline step ${index + 1} at ${at}ms:`, globals);
+        setGlobals(globals as Partial<OpenAiGlobals>);
+        if ('toolOutput' in globals) {
+          onToolOutput?.(globals.toolOutput);
+        }
+      },
+      onStatus: setTimelineStatus,
+      onError: (error) => {
+        console.error('❌ Error streaming timeline:', error);
+        setWidgetState('error');
+        publishLoadError(error);
+      },
+    });
+  };
+
+  // Publish the result of a data loader - timelines are played, other data is published at once
+  // Returns the widget state to show: tool results with `isError` are error states
+  const publishLoadedData = (data: unknown): WidgetState => {
+    if (isTimeline(data)) {
+      startTimeline(data);
+    } else {
+      publishToolResult(data);
+    }
+    return isToolResult(data) && data.isError ? 'error' : 'data';
+  };
+
+  // Error fixtures for the current widget - built-ins < DevContainer < widget
+  const getErrorFixtures = () => {
+    const widget = normalizedWidgets.find(w => w.id === activeWidgetId);
+    return { ...ERROR_FIXTURES, ...errorFixtures, ...widget?.errorFixtures };
+  };
+
+  // Fixture used for data loader failures
+  const getDefaultErrorFixture = () => {
+    const widget = normalizedWidgets.find(w => w.id === activeWidgetId);
+    const name = widget?.defaultErrorFixture ?? defaultErrorFixture ?? 'toolError';
+    return name in getErrorFixtures() ? name : 'toolError';
+  };
+
+  // Publish an error fixture - MCP results are routed like tool results, plain error data only sets toolOutput
+  const publishError = (fixture: string, error?: Error) => {
+    const payload = resolveErrorFixture(getErrorFixtures()[fixture] ?? ERROR_FIXTURES.toolError, error);
+    if (isToolResult(payload)) {
+      publishToolResult(payload);
+    } else {
+      setGlobals({ toolOutput: payload as OpenAiGlobals['toolOutput'], toolResponseMetadata: null });
+    }
+  };
+
+  // Publish a failed load - timeouts use the `timeout` fixture, other failures the default one
+  const publishLoadError = (error: unknown) => {
+    const loadError = error instanceof Error ? error : new Error('Unknown error');
+    publishError(loadError.name === TIMEOUT_ERROR ? 'timeout' : getDefaultErrorFixture(), loadError);
+  };
+
+  // Cancel the load in flight and start a new one - only the latest load may publish data
+  // Live loads also end a session replay.
+  const beginLoad = () => {
+    if (sessionReplayRef.current) {
+      handleStopReplay();
+    }
+    loadControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
+    stopTimeline();
+    setIsResponding(false);
+    return controller.signal;
+  };
+
+  // Resolve and publish toolInput - priority: data loader > widget > DevContainer prop
+  const applyToolInput = async (signal: AbortSignal, ...loaders: (DataLoader | undefined)[]) => {
+    const widget = normalizedWidgets.find(w => w.id === activeWidgetId);
+    const loaderInput = loaders
+      .map(loader => (loader ? toDataLoaderConfig(loader).toolInput : undefined))
+      .find(input => input !== undefined);
+    try {
+      const input = await resolveToolInput(loaderInput ?? widget?.toolInput ?? toolInput);
+      if (signal.aborted) return;
+      setCurrentToolInput(input);
+      setGlobals({ toolInput: input });
+    } catch (error) {
+      console.error('❌ Error resolving toolInput:', error);
+    }
+  };
+
   // Data handlers
   const handleInstantData = async () => {
     console.log('📦 Loading data instantly...');
+    const signal = beginLoad();
     setWidgetState('loading');
     setIsLoading(false);
 
     try {
       const loader = getActiveDataLoader();
+      await applyToolInput(signal, loader);
+      if (signal.aborted) return;
+      let state: WidgetState = 'data';
       if (!loader) {
         console.warn('⚠️ No data loader found');
         setGlobals({ toolOutput: {}, toolResponseMetadata: {} });
       } else {
-        const data = await loader();
-        setGlobals({ toolOutput: data, toolResponseMetadata: data });
+        const data = await toDataLoaderConfig(loader).load({ signal });
+        if (signal.aborted) return;
+        state = publishLoadedData(data);
         console.log('✅ Data loaded:', data);
       }
-      setWidgetState('data');
+      setWidgetState(state);
     } catch (error) {
+      if (signal.aborted) return;
       console.error('❌ Error loading data:', error);
       setWidgetState('error');
-      const errorData = { error: error instanceof Error ? error.message : 'Unknown error' };
-      setGlobals({ toolOutput: errorData, toolResponseMetadata: errorData });
+      publishLoadError(error);
     }
   };
 
   const handleDelayedData = async () => {
-    console.log(`⏳ Loading data with ${loadingDelay}ms delay...`);
+    console.log(`⏳ Loading data over the "${networkProfile.label}" network...`);
+    const signal = beginLoad();
     setWidgetState('loading');
     setIsLoading(true);
     setGlobals({ toolOutput: null, toolResponseMetadata: null });
 
-    await new Promise(resolve => setTimeout(resolve, loadingDelay));
+    // The host exposes toolInput while the tool is still running
+    const loader = getActiveDataLoader();
+    await applyToolInput(signal, loader);
+    if (signal.aborted) return;
 
-    // Load the data after delay
+    // Load the data once the simulated network responds
     try {
-      const loader = getActiveDataLoader();
+      const data = await simulateRequest(networkProfile, () => loader && toDataLoaderConfig(loader).load({ signal }), signal);
+      let state: WidgetState = 'data';
       if (!loader) {
         console.warn('⚠️ No data loader found');
         setGlobals({ toolOutput: {}, toolResponseMetadata: {} });
       } else {
-        const data = await loader();
-        setGlobals({ toolOutput: data, toolResponseMetadata: data });
+        state = publishLoadedData(data);
         console.log('✅ Data loaded:', data);
       }
-      setWidgetState('data');
+      setWidgetState(state);
     } catch (error) {
+      if (signal.aborted) return;
       console.error('❌ Error loading data:', error);
       setWidgetState('error');
-      const errorData = { error: error instanceof Error ? error.message : 'Unknown error' };
-      setGlobals({ toolOutput: errorData, toolResponseMetadata: errorData });
+      publishLoadError(error);
     }
 
     setIsLoading(false);
@@ -449,37 +898,234 @@ export function DevContainer({
 
   const handleShowEmpty = async () => {
     console.log('📭 Showing empty state...');
+    const signal = beginLoad();
     setWidgetState('empty');
     setIsLoading(false);
 
     const loader = getActiveEmptyLoader();
+    await applyToolInput(signal, loader, getActiveDataLoader());
+    if (signal.aborted) return;
     if (!loader) {
       setGlobals({ toolOutput: {}, toolResponseMetadata: {} });
     } else {
       try {
-        const emptyData = await loader();
-        setGlobals({ toolOutput: emptyData, toolResponseMetadata: emptyData });
+        const emptyData = await toDataLoaderConfig(loader).load({ signal });
+        if (signal.aborted) return;
+        publishLoadedData(emptyData);
         console.log('✅ Empty state loaded:', emptyData);
       } catch (error) {
+        if (signal.aborted) return;
         console.error('❌ Error loading empty state:', error);
         setGlobals({ toolOutput: {}, toolResponseMetadata: {} });
       }
     }
   };
 
-  const handleShowError = () => {
-    console.log('❌ Showing error state...');
+  const handleShowError = (fixture = effectiveErrorFixture) => {
+    console.log('❌ Showing error state:', fixture);
+    beginLoad();
+    setSelectedErrorFixture(fixture);
     setWidgetState('error');
     setIsLoading(false);
-    const errorData = {
-      error: 'Something went wrong',
-      message: 'This is a simulated error for testing error states'
-    };
-    setGlobals({ toolOutput: errorData, toolResponseMetadata: errorData });
+    publishError(fixture);
+  };
+
+  // Error fixture shown by the Error button - the last one picked, or the default
+  const errorFixtureNames = Object.keys(getErrorFixtures());
+  const effectiveErrorFixture = selectedErrorFixture && errorFixtureNames.includes(selectedErrorFixture)
+    ? selectedErrorFixture
+    : getDefaultErrorFixture();
+
+  // Data sources offered when answering follow-ups
+  const followUpSources = followUpSourcesProp ?? widgetDataLoaders;
+
+  // Answer the pending follow-up: the chosen source becomes the next assistant turn's toolOutput
+  const handleRespondToFollowUp = async (source: string) => {
+    const loader = followUpSources[source];
+    if (!loader) return;
+
+    console.log('🤖 Answering follow-up with:', source);
+    const signal = beginLoad();
+    setIsResponding(true);
+    setWidgetState('loading');
+    setGlobals({ toolOutput: null, toolResponseMetadata: null });
+
+    try {
+      await applyToolInput(signal, loader);
+      if (signal.aborted) return;
+      const data = await simulateRequest(networkProfile, () => toDataLoaderConfig(loader).load({ signal }), signal);
+      const turnId = nextTurnIdRef.current++;
+      let toolOutput: unknown = null;
+      if (isTimeline(data)) {
+        // The turn follows the timeline's latest toolOutput
+        startTimeline(data, output => {
+          setConversation(turns => turns.map(turn => (turn.id === turnId ? { ...turn, toolOutput: output } : turn)));
+        });
+      } else {
+        toolOutput = publishToolResult(data).toolOutput;
+      }
+      setWidgetState(isToolResult(data) && data.isError ? 'error' : 'data');
+      setConversation(turns => [
+        ...turns,
+        { id: turnId, role: 'assistant', source, toolOutput, timestamp: Date.now() },
+      ]);
+      console.log('✅ Follow-up answered:', data);
+    } catch (error) {
+      if (signal.aborted) return;
+      console.error('❌ Error answering follow-up:', error);
+      setWidgetState('error');
+      publishLoadError(error);
+    }
+
+    setIsResponding(false);
+  };
+
+  // Data editor handlers
+  const isToolDataEdited = toolData.toolOutput !== loadedToolData.toolOutput
+    || toolData.toolResponseMetadata !== loadedToolData.toolResponseMetadata;
+
+  const handleEditToolData = (field: ToolDataField, value: unknown) => {
+    setGlobals({ [field]: value }, { preserveOriginal: true });
+  };
+
+  const handleRevertToolData = () => {
+    console.log('↩️ Reverting edited data');
+    setGlobals({ ...loadedToolData } as Partial<OpenAiGlobals>);
+  };
+
+  // Save the published data as a data source and select it without reloading
+  const handleSaveToolData = (name: string) => {
+    const json = JSON.stringify({ structuredContent: toolData.toolOutput ?? null, _meta: toolData.toolResponseMetadata ?? null });
+    const loader: DataLoader = { load: () => toolResult(JSON.parse(json)), toolInput: currentToolInput };
+    console.log('💾 Saved data source:', name);
+    setSessionDataLoaders(sources => ({
+      ...sources,
+      [activeWidgetId]: { ...sources[activeWidgetId], [name]: loader },
+    }));
+    prevDataLoaderRef.current = name;
+    setActiveDataLoader(name);
+    setLoadedToolData(toolData);
+  };
+
+  // Add recorded MCP responses dropped onto the container, as files or folders, as data sources and load the first one
+  const handleDropRecordings = async (dataTransfer: DataTransfer) => {
+    try {
+      const files = (await readDroppedFiles(dataTransfer)).filter(({ path }) => path.toLowerCase().endsWith('.json'));
+      if (files.length === 0) {
+        console.warn('⚠️ No .json files dropped - drop recorded MCP responses or folders of them');
+        return;
+      }
+
+      const contents = Object.fromEntries(await Promise.all(files.map(async ({ path, file }) => [path, await file.text()])));
+      const calls = importMcpRecordings(contents, Object.keys(getWidgetDataLoaders()));
+      if (calls.length === 0) {
+        console.warn('⚠️ None of the dropped files contain a recorded tools/call response');
+        return;
+      }
+
+      console.log('📼 Imported recorded MCP responses:', calls.map(call => call.name));
+      setSessionDataLoaders(sources => ({
+        ...sources,
+        [activeWidgetId]: { ...sources[activeWidgetId], ...toRecordedDataLoaders(calls) },
+      }));
+      setActiveDataLoader(calls[0].name);
+    } catch (error) {
+      console.warn('⚠️ Could not import MCP recordings:', error instanceof Error ? error.message : error);
+    }
+  };
+
+  // Record control changes while a session is recorded
+  const sessionControls: SessionControls = {
+    widget: activeWidgetId,
+    dataSource: effectiveActiveDataLoader,
+    state: widgetState,
+    theme: mockTheme,
+    device: deviceId,
+    displayMode,
+    locale,
+  };
+  useEffect(() => {
+    sessionRecorder.recordControls(sessionControls);
+  });
+
+  const handleStartRecording = () => {
+    console.log('⏺ Recording session...');
+    sessionRecorder.start(sessionControls, snapshotGlobals());
+  };
+
+  const handleStopRecording = () => {
+    const recording = sessionRecorder.stop();
+    if (!recording) return;
+    console.log(`💾 Recorded ${recording.events.length} session events`);
+    downloadJson(`devtools-session-${fileTimestamp()}.json`, recording);
+  };
+
+  // Apply recorded controls without triggering live loads
+  const applySessionControls = (controls: Partial<SessionControls>) => {
+    if (controls.widget !== undefined && normalizedWidgets.some(w => w.id === controls.widget)) {
+      prevWidgetIdRef.current = controls.widget;
+      setActiveWidgetId(controls.widget);
+    }
+    if (controls.dataSource !== undefined) {
+      prevDataLoaderRef.current = controls.dataSource;
+      setActiveDataLoader(controls.dataSource);
+    }
+    if (controls.state !== undefined) {
+      setWidgetState(controls.state);
+      setIsLoading(false);
+    }
+    if (controls.theme !== undefined) setMockTheme(controls.theme);
+    if (controls.device !== undefined) {
+      if (allDeviceProfiles[controls.device]) {
+        setDeviceId(controls.device);
+      } else {
+        console.warn(`⚠️ Recorded device "${controls.device}" is not configured`);
+      }
+    }
+    if (controls.displayMode !== undefined) setDisplayMode(controls.displayMode);
+    if (controls.locale !== undefined) setLocale(controls.locale);
+  };
+
+  const applyRecordedGlobals = (globals: Partial<OpenAiGlobals>) => {
+    trackToolData(globals, false);
+    dispatchGlobals(globals);
+  };
+
+  // Replay a recorded session - live globals and bridge implementations are bypassed until stopped
+  const handleReplaySession = (recording: SessionRecording) => {
+    beginLoad();
+    console.log('▶ Replaying session recorded at', recording.recordedAt);
+
+    const total = recording.events.filter(event => event.type !== 'bridgeCall').length;
+    const replay = { respond: createBridgeResponder(recording.events), stop: () => {} };
+    sessionReplayRef.current = replay;
+    setReplayProgress({ played: 0, total });
+
+    applySessionControls(recording.initial.controls);
+    applyRecordedGlobals(recording.initial.globals);
+    replay.stop = playSession(recording, {
+      onEvent: (event) => {
+        if (event.type === 'globals') {
+          applyRecordedGlobals(event.globals);
+        } else if (event.type === 'control') {
+          applySessionControls({ [event.control]: event.value });
+        }
+      },
+      onProgress: played => setReplayProgress({ played, total }),
+      onEnd: () => console.log('✅ Session replay finished'),
+    });
+  };
+
+  const handleStopReplay = () => {
+    console.log('⏹ Stopped session replay');
+    sessionReplayRef.current?.stop();
+    sessionReplayRef.current = null;
+    setReplayProgress(null);
   };
 
   const handleShowLoading = () => {
     console.log('⏳ Showing loading state...');
+    beginLoad();
     setWidgetState('loading');
     setIsLoading(false);
     setGlobals({ toolOutput: null, toolResponseMetadata: null });
@@ -497,101 +1143,459 @@ export function DevContainer({
   const ActiveComponent = activeWidget.component;
 
   return (
-    <div style={{ width: '100%', minHeight: '100vh', position: 'relative' }}>
-      {/* Dev Toolbar */}
-      {showDevTools && (
-        <div style={{
-          background: 'var(--ai-color-bg-primary)',
-          borderBottom: '1px solid var(--ai-color-border-default)',
-          padding: '12px 16px',
-          display: 'flex',
-          flexDirection: 'column',
-          gap: '10px',
-        }}>
-          {/* Main Controls */}
+    <div
+      style={{ width: '100%', minHeight: '100vh', position: 'relative', display: 'flex' }}
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setIsDraggingFiles(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+          setIsDraggingFiles(false);
+        }
+      }}
+      onDrop={(e) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setIsDraggingFiles(false);
+        handleDropRecordings(e.dataTransfer);
+      }}
+    >
+      <div style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column' }}>
+        {/* Dev Toolbar */}
+        {showDevTools && (
           <div style={{
+            background: 'var(--ai-color-bg-primary)',
+            borderBottom: '1px solid var(--ai-color-border-default)',
+            padding: '12px 16px',
             display: 'flex',
-            alignItems: 'center',
-            gap: '8px',
-            flexWrap: 'wrap',
+            flexDirection: 'column',
+            gap: '10px',
           }}>
-            {/* Logo and Title */}
+            {/* Main Controls */}
             <div style={{
               display: 'flex',
               alignItems: 'center',
-              gap: '6px',
-              paddingRight: '12px',
-              borderRight: '1px solid var(--ai-color-border-default)',
-              marginRight: '4px',
+              gap: '8px',
+              flexWrap: 'wrap',
             }}>
-              <span style={{ fontSize: '16px' }}>⚡</span>
-              <span style={{
-                fontWeight: '600',
-                fontSize: '13px',
-                color: 'var(--ai-color-text-primary)',
-                letterSpacing: '-0.01em',
+              {/* Logo and Title */}
+              <div style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+                paddingRight: '12px',
+                borderRight: '1px solid var(--ai-color-border-default)',
+                marginRight: '4px',
               }}>
-                Dev Tools
-              </span>
-            </div>
+                <span style={{ fontSize: '16px' }}>⚡</span>
+                <span style={{
+                  fontWeight: '600',
+                  fontSize: '13px',
+                  color: 'var(--ai-color-text-primary)',
+                  letterSpacing: '-0.01em',
+                }}>
+                  Dev Tools
+                </span>
+              </div>
 
-            {/* Widget Selector (only shown for multiple widgets) */}
-            {showWidgetSelector && (
-              <div style={{ position: 'relative', display: 'inline-block' }}>
-                <select
-                  value={activeWidgetId}
-                  onChange={(e) => setActiveWidgetId(e.target.value)}
+              {/* Widget Selector (only shown for multiple widgets) */}
+              {showWidgetSelector && (
+                <div style={{ position: 'relative', display: 'inline-block' }}>
+                  <select
+                    value={activeWidgetId}
+                    onChange={(e) => setActiveWidgetId(e.target.value)}
+                    style={{
+                      padding: '5px 10px',
+                      paddingRight: '28px',
+                      borderRadius: '6px',
+                      border: '1px solid var(--ai-color-border-heavy)',
+                      background: 'var(--ai-color-bg-primary)',
+                      color: 'var(--ai-color-text-primary)',
+                      fontSize: '13px',
+                      fontWeight: '500',
+                      cursor: 'pointer',
+                      minWidth: '140px',
+                      WebkitAppearance: 'none',
+                      MozAppearance: 'none',
+                      appearance: 'none',
+                      transition: 'border-color 0.15s, box-shadow 0.15s',
+                      outline: 'none',
+                    }}
+                    onFocus={(e) => {
+                      e.target.style.borderColor = 'var(--ai-color-state-info)';
+                      e.target.style.boxShadow = '0 0 0 3px var(--ai-color-state-info-bg)';
+                    }}
+                    onBlur={(e) => {
+                      e.target.style.borderColor = 'var(--ai-color-border-heavy)';
+                      e.target.style.boxShadow = 'none';
+                    }}
+                  >
+                    {normalizedWidgets.map(widget => (
+                      <option key={widget.id} value={widget.id}>
+                        {widget.name}
+                      </option>
+                    ))}
+                  </select>
+                  <span style={{
+                    position: 'absolute',
+                    right: '10px',
+                    top: '50%',
+                    transform: 'translateY(-50%)',
+                    pointerEvents: 'none',
+                    color: 'var(--ai-color-text-secondary)',
+                    fontSize: '10px',
+                  }}>▼</span>
+                </div>
+              )}
+
+              {/* Data Loader Selector (shown if widget has multiple data loaders) */}
+              {Object.keys(widgetDataLoaders).length > 1 && (
+                <div style={{ position: 'relative', display: 'inline-block' }}>
+                  <select
+                    value={effectiveActiveDataLoader}
+                    onChange={(e) => setActiveDataLoader(e.target.value)}
+                    title="Select data source"
+                    style={{
+                      padding: '5px 10px',
+                      paddingRight: '28px',
+                      borderRadius: '6px',
+                      border: '1px solid var(--ai-color-border-heavy)',
+                      background: 'var(--ai-color-bg-primary)',
+                      color: 'var(--ai-color-text-primary)',
+                      fontSize: '13px',
+                      fontWeight: '500',
+                      cursor: 'pointer',
+                      minWidth: '110px',
+                      WebkitAppearance: 'none',
+                      MozAppearance: 'none',
+                      appearance: 'none',
+                      transition: 'border-color 0.15s, box-shadow 0.15s',
+                      outline: 'none',
+                    }}
+                    onFocus={(e) => {
+                      e.target.style.borderColor = 'var(--ai-color-state-info)';
+                      e.target.style.boxShadow = '0 0 0 3px var(--ai-color-state-info-bg)';
+                    }}
+                    onBlur={(e) => {
+                      e.target.style.borderColor = 'var(--ai-color-border-heavy)';
+                      e.target.style.boxShadow = 'none';
+                    }}
+                  >
+                    {Object.keys(widgetDataLoaders).map(key => (
+                      <option key={key} value={key}>
+                        📊 {key}
+                      </option>
+                    ))}
+                  </select>
+                  <span style={{
+                    position: 'absolute',
+                    right: '10px',
+                    top: '50%',
+                    transform: 'translateY(-50%)',
+                    pointerEvents: 'none',
+                    color: 'var(--ai-color-text-secondary)',
+                    fontSize: '10px',
+                  }}>▼</span>
+                </div>
+              )}
+
+              {/* Current toolInput */}
+              {Object.keys(currentToolInput).length > 0 && (
+                <span
+                  title={`window.openai.toolInput\n${JSON.stringify(currentToolInput, null, 2)}`}
                   style={{
-                    padding: '5px 10px',
-                    paddingRight: '28px',
+                    maxWidth: '260px',
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                    padding: '4px 10px',
                     borderRadius: '6px',
-                    border: '1px solid var(--ai-color-border-heavy)',
-                    background: 'var(--ai-color-bg-primary)',
-                    color: 'var(--ai-color-text-primary)',
-                    fontSize: '13px',
-                    fontWeight: '500',
-                    cursor: 'pointer',
-                    minWidth: '140px',
-                    WebkitAppearance: 'none',
-                    MozAppearance: 'none',
-                    appearance: 'none',
-                    transition: 'border-color 0.15s, box-shadow 0.15s',
-                    outline: 'none',
-                  }}
-                  onFocus={(e) => {
-                    e.target.style.borderColor = 'var(--ai-color-state-info)';
-                    e.target.style.boxShadow = '0 0 0 3px var(--ai-color-state-info-bg)';
-                  }}
-                  onBlur={(e) => {
-                    e.target.style.borderColor = 'var(--ai-color-border-heavy)';
-                    e.target.style.boxShadow = 'none';
+                    background: 'var(--ai-color-border-light)',
+                    color: 'var(--ai-color-text-secondary)',
+                    fontFamily: 'monospace',
+                    fontSize: '11px',
                   }}
                 >
-                  {normalizedWidgets.map(widget => (
-                    <option key={widget.id} value={widget.id}>
-                      {widget.name}
-                    </option>
-                  ))}
-                </select>
-                <span style={{
-                  position: 'absolute',
-                  right: '10px',
-                  top: '50%',
-                  transform: 'translateY(-50%)',
-                  pointerEvents: 'none',
-                  color: 'var(--ai-color-text-secondary)',
-                  fontSize: '10px',
-                }}>▼</span>
+                  🧾 {JSON.stringify(currentToolInput)}
+                </span>
+              )}
+
+              {/* Separator */}
+              <div style={{
+                width: '1px',
+                height: '20px',
+                background: 'var(--ai-color-border-default)',
+                margin: '0 4px',
+              }} />
+
+              {/* State Controls */}
+              <div style={{
+                display: 'flex',
+                gap: '4px',
+                background: 'var(--ai-color-border-light)',
+                padding: '3px',
+                borderRadius: '8px',
+              }}>
+                <button
+                  onClick={handleShowLoading}
+                  disabled={widgetState === 'loading' && !isLoading}
+                  style={{
+                    padding: '5px 12px',
+                    borderRadius: '5px',
+                    border: 'none',
+                    background: widgetState === 'loading' ? 'var(--ai-color-state-info)' : 'transparent',
+                    color: widgetState === 'loading' ? 'var(--ai-color-brand-on-primary)' : 'var(--ai-color-text-secondary)',
+                    fontSize: '12px',
+                    fontWeight: '500',
+                    cursor: widgetState === 'loading' && !isLoading ? 'default' : 'pointer',
+                    transition: 'all 0.15s',
+                    opacity: (widgetState === 'loading' && !isLoading) ? 0.5 : 1,
+                  }}
+                  onMouseEnter={(e) => {
+                    if (widgetState !== 'loading' && !e.currentTarget.disabled) {
+                      e.currentTarget.style.background = 'var(--ai-color-state-info-bg)';
+                      e.currentTarget.style.color = 'var(--ai-color-state-info)';
+                    }
+                  }}
+                  onMouseLeave={(e) => {
+                    if (widgetState !== 'loading') {
+                      e.currentTarget.style.background = 'transparent';
+                      e.currentTarget.style.color = 'var(--ai-color-text-secondary)';
+                    }
+                  }}
+                >
+                  ⏳ Loading
+                </button>
+                <button
+                  onClick={handleInstantData}
+                  disabled={isLoading}
+                  style={{
+                    padding: '5px 12px',
+                    borderRadius: '5px',
+                    border: 'none',
+                    background: widgetState === 'data' && !isLoading ? 'var(--ai-color-state-success)' : 'transparent',
+                    color: widgetState === 'data' && !isLoading ? 'var(--ai-color-brand-on-primary)' : 'var(--ai-color-text-secondary)',
+                    fontSize: '12px',
+                    fontWeight: '500',
+                    cursor: isLoading ? 'default' : 'pointer',
+                    transition: 'all 0.15s',
+                    opacity: isLoading ? 0.5 : 1,
+                  }}
+                  onMouseEnter={(e) => {
+                    if (widgetState !== 'data' && !e.currentTarget.disabled) {
+                      e.currentTarget.style.background = 'var(--ai-color-state-success-bg)';
+                      e.currentTarget.style.color = 'var(--ai-color-state-success)';
+                    }
+                  }}
+                  onMouseLeave={(e) => {
+                    if (widgetState !== 'data' || isLoading) {
+                      e.currentTarget.style.background = 'transparent';
+                      e.currentTarget.style.color = 'var(--ai-color-text-secondary)';
+                    }
+                  }}
+                >
+                  ⚡ Instant
+                </button>
+                <button
+                  onClick={handleDelayedData}
+                  disabled={isLoading}
+                  title={`Load over the "${networkProfile.label}" network`}
+                  style={{
+                    padding: '5px 12px',
+                    borderRadius: '5px',
+                    border: 'none',
+                    background: 'transparent',
+                    color: 'var(--ai-color-text-secondary)',
+                    fontSize: '12px',
+                    fontWeight: '500',
+                    cursor: isLoading ? 'default' : 'pointer',
+                    transition: 'all 0.15s',
+                    opacity: isLoading ? 0.5 : 1,
+                  }}
+                  onMouseEnter={(e) => {
+                    if (!e.currentTarget.disabled) {
+                      e.currentTarget.style.background = 'var(--ai-color-state-success-bg)';
+                      e.currentTarget.style.color = 'var(--ai-color-state-success)';
+                    }
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.background = 'transparent';
+                    e.currentTarget.style.color = 'var(--ai-color-text-secondary)';
+                  }}
+                >
+                  ⏱️ Delayed
+                </button>
+                <button
+                  onClick={handleShowEmpty}
+                  disabled={isLoading}
+                  style={{
+                    padding: '5px 12px',
+                    borderRadius: '5px',
+                    border: 'none',
+                    background: widgetState === 'empty' ? 'var(--ai-color-state-warning)' : 'transparent',
+                    color: widgetState === 'empty' ? 'var(--ai-color-brand-on-primary)' : 'var(--ai-color-text-secondary)',
+                    fontSize: '12px',
+                    fontWeight: '500',
+                    cursor: isLoading ? 'default' : 'pointer',
+                    transition: 'all 0.15s',
+                    opacity: isLoading ? 0.5 : 1,
+                  }}
+                  onMouseEnter={(e) => {
+                    if (widgetState !== 'empty' && !e.currentTarget.disabled) {
+                      e.currentTarget.style.background = 'var(--ai-color-state-warning-bg)';
+                      e.currentTarget.style.color = 'var(--ai-color-state-warning)';
+                    }
+                  }}
+                  onMouseLeave={(e) => {
+                    if (widgetState !== 'empty') {
+                      e.currentTarget.style.background = 'transparent';
+                      e.currentTarget.style.color = 'var(--ai-color-text-secondary)';
+                    }
+                  }}
+                >
+                  📭 Empty
+                </button>
+                <div style={{ display: 'flex' }}>
+                  <button
+                    onClick={() => handleShowError()}
+                    disabled={isLoading}
+                    title={`Show the "${effectiveErrorFixture}" error fixture`}
+                    style={{
+                      padding: '5px 12px',
+                      borderRadius: '5px',
+                      border: 'none',
+                      background: widgetState === 'error' ? 'var(--ai-color-state-error)' : 'transparent',
+                      color: widgetState === 'error' ? 'var(--ai-color-brand-on-primary)' : 'var(--ai-color-text-secondary)',
+                      fontSize: '12px',
+                      fontWeight: '500',
+                      cursor: isLoading ? 'default' : 'pointer',
+                      transition: 'all 0.15s',
+                      opacity: isLoading ? 0.5 : 1,
+                    }}
+                    onMouseEnter={(e) => {
+                      if (widgetState !== 'error' && !e.currentTarget.disabled) {
+                        e.currentTarget.style.background = 'var(--ai-color-state-error-bg)';
+                        e.currentTarget.style.color = 'var(--ai-color-state-error)';
+                      }
+                    }}
+                    onMouseLeave={(e) => {
+                      if (widgetState !== 'error') {
+                        e.currentTarget.style.background = 'transparent';
+                        e.currentTarget.style.color = 'var(--ai-color-text-secondary)';
+                      }
+                    }}
+                  >
+                    ⚠️ Error{effectiveErrorFixture !== 'toolError' ? `: ${effectiveErrorFixture}` : ''}
+                  </button>
+                  <ErrorFixtureMenu
+                    fixtures={errorFixtureNames}
+                    selected={effectiveErrorFixture}
+                    onSelect={handleShowError}
+                    disabled={isLoading}
+                  />
+                </div>
               </div>
-            )}
 
-            {/* Data Loader Selector (shown if widget has multiple data loaders) */}
-            {Object.keys(widgetDataLoaders).length > 1 && (
+              {/* Timeline Controls */}
+              {timelineStatus && (
+                <TimelineControls
+                  status={timelineStatus}
+                  onPlay={() => timelinePlayerRef.current?.play()}
+                  onPause={() => timelinePlayerRef.current?.pause()}
+                  onStep={() => timelinePlayerRef.current?.step()}
+                />
+              )}
+
+              {/* Separator */}
+              <div style={{
+                width: '1px',
+                height: '20px',
+                background: 'var(--ai-color-border-default)',
+                margin: '0 4px',
+              }} />
+
+              {/* Theme Toggle */}
+              <button
+                onClick={() => setMockTheme(mockTheme === 'light' ? 'dark' : 'light')}
+                title={`Switch to ${mockTheme === 'light' ? 'dark' : 'light'} theme`}
+                style={{
+                  padding: '6px 10px',
+                  borderRadius: '6px',
+                  border: '1px solid var(--ai-color-border-heavy)',
+                  background: 'var(--ai-color-bg-primary)',
+                  fontSize: '14px',
+                  cursor: 'pointer',
+                  transition: 'all 0.15s',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '4px',
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.background = 'var(--ai-state-hover-background)';
+                  e.currentTarget.style.borderColor = 'var(--ai-color-border-heavy)';
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.background = 'var(--ai-color-bg-primary)';
+                  e.currentTarget.style.borderColor = 'var(--ai-color-border-heavy)';
+                }}
+              >
+                {mockTheme === 'light' ? '🌙' : '☀️'}
+              </button>
+
+              {/* Display Mode Switcher */}
+              <div style={{
+                display: 'flex',
+                gap: '4px',
+                background: 'var(--ai-color-border-light)',
+                padding: '3px',
+                borderRadius: '8px',
+              }}>
+                {([
+                  { mode: 'inline', label: '▭ Inline' },
+                  { mode: 'pip', label: '⧉ PiP' },
+                  { mode: 'fullscreen', label: '⛶ Fullscreen' },
+                ] as const).map(({ mode, label }) => (
+                  <button
+                    key={mode}
+                    onClick={() => grantDisplayMode(mode)}
+                    title={`Display mode: ${mode}`}
+                    style={{
+                      padding: '5px 10px',
+                      borderRadius: '5px',
+                      border: 'none',
+                      background: displayMode === mode ? 'var(--ai-color-state-info)' : 'transparent',
+                      color: displayMode === mode ? 'var(--ai-color-brand-on-primary)' : 'var(--ai-color-text-secondary)',
+                      fontSize: '12px',
+                      fontWeight: '500',
+                      cursor: 'pointer',
+                      transition: 'all 0.15s',
+                    }}
+                    onMouseEnter={(e) => {
+                      if (displayMode !== mode) {
+                        e.currentTarget.style.background = 'var(--ai-color-state-info-bg)';
+                        e.currentTarget.style.color = 'var(--ai-color-state-info)';
+                      }
+                    }}
+                    onMouseLeave={(e) => {
+                      if (displayMode !== mode) {
+                        e.currentTarget.style.background = 'transparent';
+                        e.currentTarget.style.color = 'var(--ai-color-text-secondary)';
+                      }
+                    }}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {/* Locale Picker */}
               <div style={{ position: 'relative', display: 'inline-block' }}>
                 <select
-                  value={effectiveActiveDataLoader}
-                  onChange={(e) => setActiveDataLoader(e.target.value)}
-                  title="Select data source"
+                  value={locale}
+                  onChange={(e) => setLocale(e.target.value)}
+                  title="window.openai.locale"
                   style={{
                     padding: '5px 10px',
                     paddingRight: '28px',
@@ -602,7 +1606,6 @@ export function DevContainer({
                     fontSize: '13px',
                     fontWeight: '500',
                     cursor: 'pointer',
-                    minWidth: '110px',
                     WebkitAppearance: 'none',
                     MozAppearance: 'none',
                     appearance: 'none',
@@ -618,9 +1621,9 @@ export function DevContainer({
                     e.target.style.boxShadow = 'none';
                   }}
                 >
-                  {Object.keys(widgetDataLoaders).map(key => (
-                    <option key={key} value={key}>
-                      📊 {key}
+                  {(LOCALE_PRESETS.includes(locale) ? LOCALE_PRESETS : [locale, ...LOCALE_PRESETS]).map(code => (
+                    <option key={code} value={code}>
+                      🌐 {code}{isRtlLocale(code) ? ' (RTL)' : ''}
                     </option>
                   ))}
                 </select>
@@ -634,415 +1637,774 @@ export function DevContainer({
                   fontSize: '10px',
                 }}>▼</span>
               </div>
-            )}
 
-            {/* Separator */}
-            <div style={{
-              width: '1px',
-              height: '20px',
-              background: 'var(--ai-color-border-default)',
-              margin: '0 4px',
-            }} />
-
-            {/* State Controls */}
-            <div style={{
-              display: 'flex',
-              gap: '4px',
-              background: 'var(--ai-color-border-light)',
-              padding: '3px',
-              borderRadius: '8px',
-            }}>
+              {/* Pseudo-localization Toggle */}
               <button
-                onClick={handleShowLoading}
-                disabled={widgetState === 'loading' && !isLoading}
+                onClick={() => setPseudoLocalization(!pseudoLocalization)}
+                title="Pseudo-localize strings in toolOutput (accented and expanded)"
                 style={{
-                  padding: '5px 12px',
-                  borderRadius: '5px',
-                  border: 'none',
-                  background: widgetState === 'loading' ? 'var(--ai-color-state-info)' : 'transparent',
-                  color: widgetState === 'loading' ? 'var(--ai-color-brand-on-primary)' : 'var(--ai-color-text-secondary)',
+                  padding: '5px 10px',
+                  borderRadius: '6px',
+                  border: '1px solid',
+                  borderColor: pseudoLocalization ? 'var(--ai-color-state-info)' : 'var(--ai-color-border-heavy)',
+                  background: pseudoLocalization ? 'var(--ai-color-state-info-bg)' : 'var(--ai-color-bg-primary)',
+                  color: pseudoLocalization ? 'var(--ai-color-state-info)' : 'var(--ai-color-text-secondary)',
                   fontSize: '12px',
                   fontWeight: '500',
-                  cursor: widgetState === 'loading' && !isLoading ? 'default' : 'pointer',
+                  cursor: 'pointer',
                   transition: 'all 0.15s',
-                  opacity: (widgetState === 'loading' && !isLoading) ? 0.5 : 1,
-                }}
-                onMouseEnter={(e) => {
-                  if (widgetState !== 'loading' && !e.currentTarget.disabled) {
-                    e.currentTarget.style.background = 'var(--ai-color-state-info-bg)';
-                    e.currentTarget.style.color = 'var(--ai-color-state-info)';
-                  }
-                }}
-                onMouseLeave={(e) => {
-                  if (widgetState !== 'loading') {
-                    e.currentTarget.style.background = 'transparent';
-                    e.currentTarget.style.color = 'var(--ai-color-text-secondary)';
-                  }
                 }}
               >
-                ⏳ Loading
+                [Ƥšéûðö]
               </button>
+
+              {/* Spacer */}
+              <div style={{ flex: 1, minWidth: '20px' }} />
+
+              {/* Data Editor Toggle */}
               <button
-                onClick={handleInstantData}
-                disabled={isLoading}
+                onClick={() => setShowDataEditor(!showDataEditor)}
+                title="Edit toolOutput and toolResponseMetadata live"
                 style={{
-                  padding: '5px 12px',
-                  borderRadius: '5px',
+                  padding: '6px 12px',
+                  borderRadius: '6px',
                   border: 'none',
-                  background: widgetState === 'data' && !isLoading ? 'var(--ai-color-state-success)' : 'transparent',
-                  color: widgetState === 'data' && !isLoading ? 'var(--ai-color-brand-on-primary)' : 'var(--ai-color-text-secondary)',
+                  background: showDataEditor ? 'var(--ai-color-state-info-bg)' : 'transparent',
+                  color: showDataEditor ? 'var(--ai-color-state-info)' : 'var(--ai-color-text-secondary)',
                   fontSize: '12px',
                   fontWeight: '500',
-                  cursor: isLoading ? 'default' : 'pointer',
+                  cursor: 'pointer',
                   transition: 'all 0.15s',
-                  opacity: isLoading ? 0.5 : 1,
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '4px',
                 }}
                 onMouseEnter={(e) => {
-                  if (widgetState !== 'data' && !e.currentTarget.disabled) {
-                    e.currentTarget.style.background = 'var(--ai-color-state-success-bg)';
-                    e.currentTarget.style.color = 'var(--ai-color-state-success)';
-                  }
+                  e.currentTarget.style.background = 'var(--ai-color-state-info-bg)';
+                  e.currentTarget.style.color = 'var(--ai-color-state-info)';
                 }}
                 onMouseLeave={(e) => {
-                  if (widgetState !== 'data' || isLoading) {
+                  if (!showDataEditor) {
                     e.currentTarget.style.background = 'transparent';
                     e.currentTarget.style.color = 'var(--ai-color-text-secondary)';
                   }
                 }}
               >
-                ⚡ Instant
+                {'{ }'} Data
+                {isToolDataEdited && (
+                  <span style={{
+                    width: '6px',
+                    height: '6px',
+                    borderRadius: '50%',
+                    background: 'var(--ai-color-state-warning)',
+                  }} />
+                )}
               </button>
+
+              {/* Conversation Toggle */}
               <button
-                onClick={handleDelayedData}
-                disabled={isLoading}
+                onClick={() => setShowConversation(!showConversation)}
+                title="Show the simulated conversation for sendFollowUpMessage"
                 style={{
-                  padding: '5px 12px',
-                  borderRadius: '5px',
+                  padding: '6px 12px',
+                  borderRadius: '6px',
                   border: 'none',
-                  background: 'transparent',
-                  color: 'var(--ai-color-text-secondary)',
+                  background: showConversation ? 'var(--ai-color-state-info-bg)' : 'transparent',
+                  color: showConversation ? 'var(--ai-color-state-info)' : 'var(--ai-color-text-secondary)',
                   fontSize: '12px',
                   fontWeight: '500',
-                  cursor: isLoading ? 'default' : 'pointer',
+                  cursor: 'pointer',
                   transition: 'all 0.15s',
-                  opacity: isLoading ? 0.5 : 1,
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '4px',
                 }}
                 onMouseEnter={(e) => {
-                  if (!e.currentTarget.disabled) {
-                    e.currentTarget.style.background = 'var(--ai-color-state-success-bg)';
-                    e.currentTarget.style.color = 'var(--ai-color-state-success)';
-                  }
+                  e.currentTarget.style.background = 'var(--ai-color-state-info-bg)';
+                  e.currentTarget.style.color = 'var(--ai-color-state-info)';
                 }}
                 onMouseLeave={(e) => {
-                  e.currentTarget.style.background = 'transparent';
-                  e.currentTarget.style.color = 'var(--ai-color-text-secondary)';
+                  if (!showConversation) {
+                    e.currentTarget.style.background = 'transparent';
+                    e.currentTarget.style.color = 'var(--ai-color-text-secondary)';
+                  }
                 }}
               >
-                ⏱️ Delayed
+                💬 Conversation
+                {conversation.length > 0 && conversation[conversation.length - 1].role === 'user' && (
+                  <span style={{
+                    width: '6px',
+                    height: '6px',
+                    borderRadius: '50%',
+                    background: 'var(--ai-color-state-warning)',
+                  }} />
+                )}
               </button>
+
+              {/* Session Recording */}
+              <SessionRecorderControls
+                isRecording={sessionRecorder.isRecording}
+                eventCount={sessionRecorder.eventCount}
+                replay={replayProgress}
+                onStartRecording={handleStartRecording}
+                onStopRecording={handleStopRecording}
+                onReplay={handleReplaySession}
+                onStopReplay={handleStopReplay}
+              />
+
+              {/* Call Inspector Toggle */}
               <button
-                onClick={handleShowEmpty}
-                disabled={isLoading}
+                onClick={() => setShowInspector(!showInspector)}
+                title="Inspect window.openai calls"
                 style={{
-                  padding: '5px 12px',
-                  borderRadius: '5px',
+                  padding: '6px 12px',
+                  borderRadius: '6px',
                   border: 'none',
-                  background: widgetState === 'empty' ? 'var(--ai-color-state-warning)' : 'transparent',
-                  color: widgetState === 'empty' ? 'var(--ai-color-brand-on-primary)' : 'var(--ai-color-text-secondary)',
+                  background: showInspector ? 'var(--ai-color-state-info-bg)' : 'transparent',
+                  color: showInspector ? 'var(--ai-color-state-info)' : 'var(--ai-color-text-secondary)',
                   fontSize: '12px',
                   fontWeight: '500',
-                  cursor: isLoading ? 'default' : 'pointer',
+                  cursor: 'pointer',
                   transition: 'all 0.15s',
-                  opacity: isLoading ? 0.5 : 1,
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '4px',
                 }}
                 onMouseEnter={(e) => {
-                  if (widgetState !== 'empty' && !e.currentTarget.disabled) {
-                    e.currentTarget.style.background = 'var(--ai-color-state-warning-bg)';
-                    e.currentTarget.style.color = 'var(--ai-color-state-warning)';
-                  }
+                  e.currentTarget.style.background = 'var(--ai-color-state-info-bg)';
+                  e.currentTarget.style.color = 'var(--ai-color-state-info)';
                 }}
                 onMouseLeave={(e) => {
-                  if (widgetState !== 'empty') {
+                  if (!showInspector) {
                     e.currentTarget.style.background = 'transparent';
                     e.currentTarget.style.color = 'var(--ai-color-text-secondary)';
                   }
                 }}
               >
-                📭 Empty
+                🔍 Calls{callLog.entries.length > 0 ? ` (${callLog.entries.length})` : ''}
               </button>
+
+              {/* Advanced Toggle */}
               <button
-                onClick={handleShowError}
-                disabled={isLoading}
+                onClick={() => setShowAdvancedSettings(!showAdvancedSettings)}
                 style={{
-                  padding: '5px 12px',
-                  borderRadius: '5px',
+                  padding: '6px 12px',
+                  borderRadius: '6px',
                   border: 'none',
-                  background: widgetState === 'error' ? 'var(--ai-color-state-error)' : 'transparent',
-                  color: widgetState === 'error' ? 'var(--ai-color-brand-on-primary)' : 'var(--ai-color-text-secondary)',
+                  background: showAdvancedSettings ? 'var(--ai-color-state-info-bg)' : 'transparent',
+                  color: showAdvancedSettings ? 'var(--ai-color-state-info)' : 'var(--ai-color-text-secondary)',
                   fontSize: '12px',
                   fontWeight: '500',
-                  cursor: isLoading ? 'default' : 'pointer',
+                  cursor: 'pointer',
                   transition: 'all 0.15s',
-                  opacity: isLoading ? 0.5 : 1,
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '4px',
                 }}
                 onMouseEnter={(e) => {
-                  if (widgetState !== 'error' && !e.currentTarget.disabled) {
-                    e.currentTarget.style.background = 'var(--ai-color-state-error-bg)';
-                    e.currentTarget.style.color = 'var(--ai-color-state-error)';
-                  }
+                  e.currentTarget.style.background = 'var(--ai-color-state-info-bg)';
+                  e.currentTarget.style.color = 'var(--ai-color-state-info)';
                 }}
                 onMouseLeave={(e) => {
-                  if (widgetState !== 'error') {
+                  if (!showAdvancedSettings) {
                     e.currentTarget.style.background = 'transparent';
                     e.currentTarget.style.color = 'var(--ai-color-text-secondary)';
                   }
                 }}
               >
-                ⚠️ Error
+                <span style={{
+                  transform: showAdvancedSettings ? 'rotate(90deg)' : 'rotate(0deg)',
+                  transition: 'transform 0.2s',
+                  fontSize: '10px',
+                }}>
+                  ▶
+                </span>
+                Advanced
               </button>
             </div>
 
-            {/* Separator */}
-            <div style={{
-              width: '1px',
-              height: '20px',
-              background: 'var(--ai-color-border-default)',
-              margin: '0 4px',
-            }} />
-
-            {/* Theme Toggle */}
-            <button
-              onClick={() => setMockTheme(mockTheme === 'light' ? 'dark' : 'light')}
-              title={`Switch to ${mockTheme === 'light' ? 'dark' : 'light'} theme`}
-              style={{
-                padding: '6px 10px',
-                borderRadius: '6px',
-                border: '1px solid var(--ai-color-border-heavy)',
-                background: 'var(--ai-color-bg-primary)',
-                fontSize: '14px',
-                cursor: 'pointer',
-                transition: 'all 0.15s',
-                display: 'flex',
-                alignItems: 'center',
-                gap: '4px',
-              }}
-              onMouseEnter={(e) => {
-                e.currentTarget.style.background = 'var(--ai-state-hover-background)';
-                e.currentTarget.style.borderColor = 'var(--ai-color-border-heavy)';
-              }}
-              onMouseLeave={(e) => {
-                e.currentTarget.style.background = 'var(--ai-color-bg-primary)';
-                e.currentTarget.style.borderColor = 'var(--ai-color-border-heavy)';
-              }}
-            >
-              {mockTheme === 'light' ? '🌙' : '☀️'}
-            </button>
-
-            {/* Spacer */}
-            <div style={{ flex: 1, minWidth: '20px' }} />
-
-            {/* Advanced Toggle */}
-            <button
-              onClick={() => setShowAdvancedSettings(!showAdvancedSettings)}
-              style={{
-                padding: '6px 12px',
-                borderRadius: '6px',
-                border: 'none',
-                background: showAdvancedSettings ? 'var(--ai-color-state-info-bg)' : 'transparent',
-                color: showAdvancedSettings ? 'var(--ai-color-state-info)' : 'var(--ai-color-text-secondary)',
-                fontSize: '12px',
-                fontWeight: '500',
-                cursor: 'pointer',
-                transition: 'all 0.15s',
-                display: 'flex',
-                alignItems: 'center',
-                gap: '4px',
-              }}
-              onMouseEnter={(e) => {
-                e.currentTarget.style.background = 'var(--ai-color-state-info-bg)';
-                e.currentTarget.style.color = 'var(--ai-color-state-info)';
-              }}
-              onMouseLeave={(e) => {
-                if (!showAdvancedSettings) {
-                  e.currentTarget.style.background = 'transparent';
-                  e.currentTarget.style.color = 'var(--ai-color-text-secondary)';
-                }
-              }}
-            >
-              <span style={{
-                transform: showAdvancedSettings ? 'rotate(90deg)' : 'rotate(0deg)',
-                transition: 'transform 0.2s',
-                fontSize: '10px',
-              }}>
-                ▶
-              </span>
-              Advanced
-            </button>
-          </div>
-
-          {/* Advanced Settings */}
-          {showAdvancedSettings && (
-            <div style={{
-              display: 'flex',
-              alignItems: 'center',
-              gap: '12px',
-              flexWrap: 'wrap',
-              paddingTop: '8px',
-              borderTop: '1px solid var(--ai-color-border-light)',
-            }}>
-              {/* Device Type */}
+            {/* Advanced Settings */}
+            {showAdvancedSettings && (
               <div style={{
                 display: 'flex',
                 alignItems: 'center',
-                gap: '6px',
+                gap: '12px',
+                flexWrap: 'wrap',
+                paddingTop: '8px',
+                borderTop: '1px solid var(--ai-color-border-light)',
               }}>
-                <span style={{ fontSize: '12px', color: 'var(--ai-color-text-secondary)', fontWeight: '500' }}>Device:</span>
-                <div style={{ position: 'relative', display: 'inline-block' }}>
-                  <select
-                    value={deviceType}
-                    onChange={(e) => setDeviceType(e.target.value as 'desktop' | 'tablet' | 'mobile')}
+                {/* Device Type */}
+                <div style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                }}>
+                  <span style={{ fontSize: '12px', color: 'var(--ai-color-text-secondary)', fontWeight: '500' }}>Device:</span>
+                  <div style={{ position: 'relative', display: 'inline-block' }}>
+                    <select
+                      value={deviceId}
+                      onChange={(e) => setDeviceId(e.target.value)}
+                      style={{
+                        padding: '4px 8px',
+                        paddingRight: '24px',
+                        borderRadius: '6px',
+                        border: '1px solid var(--ai-color-border-heavy)',
+                        background: 'var(--ai-color-bg-primary)',
+                        color: 'var(--ai-color-text-primary)',
+                        fontSize: '12px',
+                        fontWeight: '500',
+                        cursor: 'pointer',
+                        WebkitAppearance: 'none',
+                        MozAppearance: 'none',
+                        appearance: 'none',
+                        transition: 'border-color 0.15s',
+                        outline: 'none',
+                      }}
+                      onFocus={(e) => {
+                        e.target.style.borderColor = 'var(--ai-color-state-info)';
+                      }}
+                      onBlur={(e) => {
+                        e.target.style.borderColor = 'var(--ai-color-border-heavy)';
+                      }}
+                    >
+                      {Object.entries(DEVICE_PROFILES).map(([id, profile]) => (
+                        <option key={id} value={id}>
+                          {profile.type === 'desktop' ? '💻' : '📱'} {profile.name} ({profile.width}px)
+                        </option>
+                      ))}
+                      {deviceProfiles && Object.keys(deviceProfiles).length > 0 && (
+                        <optgroup label="Custom">
+                          {Object.entries(deviceProfiles).map(([id, profile]) => (
+                            <option key={id} value={id}>
+                              {profile.type === 'desktop' ? '💻' : '📱'} {profile.name} ({profile.width}px)
+                            </option>
+                          ))}
+                        </optgroup>
+                      )}
+                    </select>
+                    <span style={{
+                      position: 'absolute',
+                      right: '8px',
+                      top: '50%',
+                      transform: 'translateY(-50%)',
+                      pointerEvents: 'none',
+                      color: 'var(--ai-color-text-secondary)',
+                      fontSize: '9px',
+                    }}>▼</span>
+                  </div>
+                </div>
+
+                {/* Border Toggle - ChatGPT adds border by default (widgetPrefersBorder) */}
+                <button
+                  onClick={() => setShowBorder(!showBorder)}
+                  title="Toggle ChatGPT-style border"
+                  style={{
+                    padding: '4px 10px',
+                    borderRadius: '6px',
+                    border: '1px solid',
+                    borderColor: showBorder ? 'var(--ai-color-state-info)' : 'var(--ai-color-border-heavy)',
+                    background: showBorder ? 'var(--ai-color-state-info-bg)' : 'var(--ai-color-bg-primary)',
+                    color: showBorder ? 'var(--ai-color-state-info)' : 'var(--ai-color-text-secondary)',
+                    fontSize: '12px',
+                    fontWeight: '500',
+                    cursor: 'pointer',
+                    transition: 'all 0.15s',
+                  }}
+                  onMouseEnter={(e) => {
+                    if (!showBorder) {
+                      e.currentTarget.style.borderColor = 'var(--ai-color-state-info)';
+                      e.currentTarget.style.background = 'var(--ai-color-state-info-bg)';
+                    }
+                  }}
+                  onMouseLeave={(e) => {
+                    if (!showBorder) {
+                      e.currentTarget.style.borderColor = 'var(--ai-color-border-heavy)';
+                      e.currentTarget.style.background = 'var(--ai-color-bg-primary)';
+                    }
+                  }}
+                >
+                  {showBorder ? '🔲 Border' : '⬜ No Border'}
+                </button>
+
+                {/* Max Height */}
+                <div style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                }}>
+                  <span style={{ fontSize: '12px', color: 'var(--ai-color-text-secondary)', fontWeight: '500' }}>Max height:</span>
+                  <div style={{ position: 'relative', display: 'inline-block' }}>
+                    <select
+                      value={String(maxHeightSetting)}
+                      onChange={(e) => setMaxHeightSetting(e.target.value === 'auto' ? 'auto' : Number(e.target.value))}
+                      title="window.openai.maxHeight"
+                      style={{
+                        padding: '4px 8px',
+                        paddingRight: '24px',
+                        borderRadius: '6px',
+                        border: '1px solid var(--ai-color-border-heavy)',
+                        background: 'var(--ai-color-bg-primary)',
+                        color: 'var(--ai-color-text-primary)',
+                        fontSize: '12px',
+                        fontWeight: '500',
+                        cursor: 'pointer',
+                        WebkitAppearance: 'none',
+                        MozAppearance: 'none',
+                        appearance: 'none',
+                        transition: 'border-color 0.15s',
+                        outline: 'none',
+                      }}
+                      onFocus={(e) => {
+                        e.target.style.borderColor = 'var(--ai-color-state-info)';
+                      }}
+                      onBlur={(e) => {
+                        e.target.style.borderColor = 'var(--ai-color-border-heavy)';
+                      }}
+                    >
+                      <option value="auto">Auto ({presetMaxHeight}px)</option>
+                      {[240, 320, 400, 480, 600, 800].map(height => (
+                        <option key={height} value={height}>{height}px</option>
+                      ))}
+                    </select>
+                    <span style={{
+                      position: 'absolute',
+                      right: '8px',
+                      top: '50%',
+                      transform: 'translateY(-50%)',
+                      pointerEvents: 'none',
+                      color: 'var(--ai-color-text-secondary)',
+                      fontSize: '9px',
+                    }}>▼</span>
+                  </div>
+                  <button
+                    onClick={() => setOverflowMode(overflowMode === 'scroll' ? 'clip' : 'scroll')}
+                    title="How content taller than maxHeight is handled"
                     style={{
-                      padding: '4px 8px',
-                      paddingRight: '24px',
+                      padding: '4px 10px',
                       borderRadius: '6px',
                       border: '1px solid var(--ai-color-border-heavy)',
                       background: 'var(--ai-color-bg-primary)',
-                      color: 'var(--ai-color-text-primary)',
+                      color: 'var(--ai-color-text-secondary)',
                       fontSize: '12px',
                       fontWeight: '500',
                       cursor: 'pointer',
-                      WebkitAppearance: 'none',
-                      MozAppearance: 'none',
-                      appearance: 'none',
-                      transition: 'border-color 0.15s',
-                      outline: 'none',
-                    }}
-                    onFocus={(e) => {
-                      e.target.style.borderColor = 'var(--ai-color-state-info)';
-                    }}
-                    onBlur={(e) => {
-                      e.target.style.borderColor = 'var(--ai-color-border-heavy)';
+                      transition: 'all 0.15s',
                     }}
                   >
-                    <option value="desktop">💻 Desktop (768px)</option>
-                    <option value="tablet">📱 Tablet (576px)</option>
-                    <option value="mobile">📱 Mobile (380px)</option>
-                  </select>
-                  <span style={{
-                    position: 'absolute',
-                    right: '8px',
-                    top: '50%',
-                    transform: 'translateY(-50%)',
-                    pointerEvents: 'none',
-                    color: 'var(--ai-color-text-secondary)',
-                    fontSize: '9px',
-                  }}>▼</span>
+                    {overflowMode === 'scroll' ? '↕ Scroll' : '✂️ Clip'}
+                  </button>
                 </div>
-              </div>
 
-              {/* Border Toggle - ChatGPT adds border by default (widgetPrefersBorder) */}
-              <button
-                onClick={() => setShowBorder(!showBorder)}
-                title="Toggle ChatGPT-style border"
-                style={{
-                  padding: '4px 10px',
-                  borderRadius: '6px',
-                  border: '1px solid',
-                  borderColor: showBorder ? 'var(--ai-color-state-info)' : 'var(--ai-color-border-heavy)',
-                  background: showBorder ? 'var(--ai-color-state-info-bg)' : 'var(--ai-color-bg-primary)',
-                  color: showBorder ? 'var(--ai-color-state-info)' : 'var(--ai-color-text-secondary)',
-                  fontSize: '12px',
-                  fontWeight: '500',
-                  cursor: 'pointer',
-                  transition: 'all 0.15s',
-                }}
-                onMouseEnter={(e) => {
-                  if (!showBorder) {
+                {/* Network Profile */}
+                <div style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                }}>
+                  <span style={{ fontSize: '12px', color: 'var(--ai-color-text-secondary)', fontWeight: '500' }}>Network:</span>
+                  <div style={{ position: 'relative', display: 'inline-block' }}>
+                    <select
+                      value={networkProfileId}
+                      onChange={(e) => setNetworkProfileId(e.target.value)}
+                      title="Network conditions for delayed loads and follow-up answers"
+                      style={{
+                        padding: '4px 8px',
+                        paddingRight: '24px',
+                        borderRadius: '6px',
+                        border: '1px solid var(--ai-color-border-heavy)',
+                        background: 'var(--ai-color-bg-primary)',
+                        color: 'var(--ai-color-text-primary)',
+                        fontSize: '12px',
+                        fontWeight: '500',
+                        cursor: 'pointer',
+                        WebkitAppearance: 'none',
+                        MozAppearance: 'none',
+                        appearance: 'none',
+                        transition: 'border-color 0.15s',
+                        outline: 'none',
+                      }}
+                      onFocus={(e) => {
+                        e.target.style.borderColor = 'var(--ai-color-state-info)';
+                      }}
+                      onBlur={(e) => {
+                        e.target.style.borderColor = 'var(--ai-color-border-heavy)';
+                      }}
+                    >
+                      {Object.entries(allNetworkProfiles).map(([id, profile]) => (
+                        <option key={id} value={id}>{profile.label}</option>
+                      ))}
+                    </select>
+                    <span style={{
+                      position: 'absolute',
+                      right: '8px',
+                      top: '50%',
+                      transform: 'translateY(-50%)',
+                      pointerEvents: 'none',
+                      color: 'var(--ai-color-text-secondary)',
+                      fontSize: '9px',
+                    }}>▼</span>
+                  </div>
+                </div>
+
+                {/* openExternal Mode */}
+                <div style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                }}>
+                  <span style={{ fontSize: '12px', color: 'var(--ai-color-text-secondary)', fontWeight: '500' }}>Links:</span>
+                  <div style={{ position: 'relative', display: 'inline-block' }}>
+                    <select
+                      value={openExternalMode}
+                      onChange={(e) => setOpenExternalMode(e.target.value as OpenExternalMode)}
+                      title={openExternalConfig?.allowedDomains
+                        ? `What openExternal does with links to: ${openExternalConfig.allowedDomains.join(', ')}`
+                        : 'What openExternal does with links'}
+                      style={{
+                        padding: '4px 8px',
+                        paddingRight: '24px',
+                        borderRadius: '6px',
+                        border: '1px solid var(--ai-color-border-heavy)',
+                        background: 'var(--ai-color-bg-primary)',
+                        color: 'var(--ai-color-text-primary)',
+                        fontSize: '12px',
+                        fontWeight: '500',
+                        cursor: 'pointer',
+                        WebkitAppearance: 'none',
+                        MozAppearance: 'none',
+                        appearance: 'none',
+                        transition: 'border-color 0.15s',
+                        outline: 'none',
+                      }}
+                      onFocus={(e) => {
+                        e.target.style.borderColor = 'var(--ai-color-state-info)';
+                      }}
+                      onBlur={(e) => {
+                        e.target.style.borderColor = 'var(--ai-color-border-heavy)';
+                      }}
+                    >
+                      <option value="log">📝 Log only</option>
+                      <option value="confirm">❓ Confirm</option>
+                      <option value="open">↗️ Open</option>
+                    </select>
+                    <span style={{
+                      position: 'absolute',
+                      right: '8px',
+                      top: '50%',
+                      transform: 'translateY(-50%)',
+                      pointerEvents: 'none',
+                      color: 'var(--ai-color-text-secondary)',
+                      fontSize: '9px',
+                    }}>▼</span>
+                  </div>
+                </div>
+
+                {/* Clear persisted Apps SDK widget state */}
+                <button
+                  onClick={handleClearWidgetState}
+                  title="Clear the widgetState stored via window.openai.setWidgetState"
+                  style={{
+                    padding: '4px 10px',
+                    borderRadius: '6px',
+                    border: '1px solid var(--ai-color-border-heavy)',
+                    background: 'var(--ai-color-bg-primary)',
+                    color: 'var(--ai-color-text-secondary)',
+                    fontSize: '12px',
+                    fontWeight: '500',
+                    cursor: 'pointer',
+                    transition: 'all 0.15s',
+                  }}
+                  onMouseEnter={(e) => {
                     e.currentTarget.style.borderColor = 'var(--ai-color-state-info)';
                     e.currentTarget.style.background = 'var(--ai-color-state-info-bg)';
-                  }
-                }}
-                onMouseLeave={(e) => {
-                  if (!showBorder) {
+                  }}
+                  onMouseLeave={(e) => {
                     e.currentTarget.style.borderColor = 'var(--ai-color-border-heavy)';
                     e.currentTarget.style.background = 'var(--ai-color-bg-primary)';
-                  }
-                }}
-              >
-                {showBorder ? '🔲 Border' : '⬜ No Border'}
-              </button>
+                  }}
+                >
+                  🧹 Reset widgetState
+                </button>
 
-              {/* Spacer */}
-              <div style={{ flex: 1, minWidth: '20px' }} />
+                {/* Spacer */}
+                <div style={{ flex: 1, minWidth: '20px' }} />
 
-              {/* Status Indicators */}
-              <div style={{
-                display: 'flex',
-                gap: '8px',
-                alignItems: 'center',
-              }}>
-                <span style={{
-                  padding: '3px 10px',
-                  borderRadius: '12px',
-                  background: 'var(--ai-color-state-info-bg)',
-                  color: 'var(--ai-color-state-info)',
-                  fontSize: '11px',
-                  fontWeight: '600',
-                  letterSpacing: '0.02em',
+                {/* Status Indicators */}
+                <div style={{
+                  display: 'flex',
+                  gap: '8px',
+                  alignItems: 'center',
                 }}>
-                  {widgetState.toUpperCase()}
-                </span>
-                <span style={{
-                  padding: '3px 10px',
-                  borderRadius: '12px',
-                  background: 'var(--ai-color-border-light)',
-                  color: 'var(--ai-color-text-secondary)',
-                  fontSize: '11px',
-                  fontWeight: '600',
-                  border: '1px solid var(--ai-color-border-light)',
-                }}>
-                  {mockTheme === 'dark' ? '🌙' : '☀️'} {mockTheme.toUpperCase()}
-                </span>
-                <span style={{
-                  padding: '3px 10px',
-                  borderRadius: '12px',
-                  background: 'var(--ai-state-hover-background)',
-                  color: 'var(--ai-color-text-secondary)',
-                  fontSize: '11px',
-                  fontWeight: '600',
-                }}>
-                  {viewportWidth}px
-                </span>
+                  <span style={{
+                    padding: '3px 10px',
+                    borderRadius: '12px',
+                    background: 'var(--ai-color-state-info-bg)',
+                    color: 'var(--ai-color-state-info)',
+                    fontSize: '11px',
+                    fontWeight: '600',
+                    letterSpacing: '0.02em',
+                  }}>
+                    {widgetState.toUpperCase()}
+                  </span>
+                  <span style={{
+                    padding: '3px 10px',
+                    borderRadius: '12px',
+                    background: 'var(--ai-color-border-light)',
+                    color: 'var(--ai-color-text-secondary)',
+                    fontSize: '11px',
+                    fontWeight: '600',
+                    border: '1px solid var(--ai-color-border-light)',
+                  }}>
+                    {mockTheme === 'dark' ? '🌙' : '☀️'} {mockTheme.toUpperCase()}
+                  </span>
+                  <span
+                    title={[
+                      `${deviceProfile.name} (${deviceType})`,
+                      `hover: ${deviceCapabilities.hover}, touch: ${deviceCapabilities.touch}`,
+                      `safeArea: ${safeAreaInsets.top} ${safeAreaInsets.right} ${safeAreaInsets.bottom} ${safeAreaInsets.left}`,
+                    ].join('\n')}
+                    style={{
+                      padding: '3px 10px',
+                      borderRadius: '12px',
+                      background: 'var(--ai-state-hover-background)',
+                      color: 'var(--ai-color-text-secondary)',
+                      fontSize: '11px',
+                      fontWeight: '600',
+                    }}
+                  >
+                    {viewportWidth}px{deviceProfile.height ? ` × ${deviceProfile.height}px` : ''}
+                  </span>
+                  <span
+                    title={overflowAmount > 0 ? `Content overflows by ${overflowAmount}px` : 'Content fits within maxHeight'}
+                    style={{
+                      padding: '3px 10px',
+                      borderRadius: '12px',
+                      background: overflowAmount > 0 ? 'var(--ai-color-state-warning-bg)' : 'var(--ai-state-hover-background)',
+                      color: overflowAmount > 0 ? 'var(--ai-color-state-warning)' : 'var(--ai-color-text-secondary)',
+                      fontSize: '11px',
+                      fontWeight: '600',
+                    }}
+                  >
+                    ↕ {maxHeight}px{overflowAmount > 0 ? ` (+${overflowAmount})` : ''}
+                  </span>
+                </div>
               </div>
-            </div>
-          )}
-        </div>
-      )}
+            )}
+          </div>
+        )}
 
-      {/* Main Content Area - Viewport Constraint */}
-      <div style={{
-          maxWidth: `${viewportWidth}px`,
-          margin: '0 auto',
+        {/* Main Content Area - viewport with optional conversation pane */}
+        <div style={{
+          display: 'flex',
+          justifyContent: 'center',
+          alignItems: 'flex-start',
+          gap: '16px',
           marginTop: '16px',
-          width: '100%',
-          position: 'relative',
-          overflowX: 'hidden',
+          padding: '0 16px',
         }}>
-          {/* ChatGPT-style container with border (widgetPrefersBorder) */}
+          {/* Viewport Constraint */}
           <div style={{
-            ...(showBorder && {
-              border: '1px solid var(--ai-color-border-default)',
-              borderRadius: deviceType === 'desktop' ? '24px' : '16px',
-              overflow: 'hidden',
-            }),
+            maxWidth: `${viewportWidth}px`,
+            width: '100%',
+            position: 'relative',
+            overflowX: 'hidden',
           }}>
-            <ErrorBoundary>
-              <AppsSDKUIProvider linkComponent="a">
-                <ActiveComponent />
-              </AppsSDKUIProvider>
-            </ErrorBoundary>
+            {/* Host frame - inline card, floating PiP window or fullscreen overlay */}
+            <div style={{
+              ...(displayMode === 'pip' && {
+                position: 'fixed',
+                right: '24px',
+                bottom: '24px',
+                width: `${Math.min(viewportWidth, 420)}px`,
+                display: 'flex',
+                flexDirection: 'column',
+                background: 'var(--ai-color-bg-primary)',
+                border: '1px solid var(--ai-color-border-default)',
+                borderRadius: '16px',
+                boxShadow: '0 12px 32px rgba(0, 0, 0, 0.2)',
+                overflow: 'hidden',
+                zIndex: 1000,
+              }),
+              ...(displayMode === 'fullscreen' && {
+                position: 'fixed',
+                inset: 0,
+                display: 'flex',
+                flexDirection: 'column',
+                background: 'var(--ai-color-bg-primary)',
+                zIndex: 1000,
+              }),
+            }}>
+              {displayMode !== 'inline' && (
+                <HostChrome mode={displayMode} title={activeWidget.name} onRequestMode={grantDisplayMode} />
+              )}
+
+              {/* ChatGPT-style container with border (widgetPrefersBorder), constrained to maxHeight */}
+              <div style={{
+                maxHeight: `${maxHeight}px`,
+                overflowX: 'hidden',
+                overflowY: overflowMode === 'scroll' ? 'auto' : 'hidden',
+                ...(displayMode === 'inline' && showBorder && {
+                  border: '1px solid var(--ai-color-border-default)',
+                  borderRadius: deviceType === 'desktop' ? '24px' : '16px',
+                }),
+                ...(displayMode !== 'inline' && {
+                  flex: 1,
+                  minHeight: 0,
+                }),
+              }}>
+                <div ref={widgetContentRef} lang={locale} dir={isRtlLocale(locale) ? 'rtl' : 'ltr'}>
+                  <ErrorBoundary>
+                    <AppsSDKUIProvider linkComponent="a">
+                      <ActiveComponent />
+                    </AppsSDKUIProvider>
+                  </ErrorBoundary>
+                </div>
+              </div>
+
+              {/* Safe area insets - areas covered by notches and home indicators in fullscreen */}
+              {displayMode === 'fullscreen' && (['top', 'bottom', 'left', 'right'] as const)
+                .filter(side => safeAreaInsets[side] > 0)
+                .map(side => (
+                  <div
+                    key={side}
+                    style={{
+                      position: 'absolute',
+                      [side]: 0,
+                      ...(side === 'top' || side === 'bottom'
+                        ? { left: 0, right: 0, height: `${safeAreaInsets[side]}px` }
+                        : { top: 0, bottom: 0, width: `${safeAreaInsets[side]}px` }),
+                      background: 'repeating-linear-gradient(45deg, rgba(255, 0, 0, 0.12) 0 6px, transparent 6px 12px)',
+                      pointerEvents: 'none',
+                      zIndex: 1,
+                    }}
+                  />
+                ))}
+
+              {/* Overflow indicator - content taller than maxHeight */}
+              {overflowAmount > 0 && (
+                <div
+                  title={`Content is ${contentHeight}px tall, maxHeight is ${maxHeight}px`}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    gap: '6px',
+                    padding: '4px 10px',
+                    marginTop: displayMode === 'inline' ? '6px' : 0,
+                    borderRadius: displayMode === 'inline' ? '6px' : 0,
+                    background: 'var(--ai-color-state-warning-bg)',
+                    color: 'var(--ai-color-state-warning)',
+                    fontSize: '11px',
+                    fontWeight: '600',
+                    flexShrink: 0,
+                  }}
+                >
+                  ↕ Content overflows maxHeight by {overflowAmount}px ({overflowMode === 'scroll' ? 'scrolling' : 'clipped'})
+                </div>
+              )}
+            </div>
+
+            {/* Placeholder left in the conversation while the widget is out of inline mode */}
+            {displayMode !== 'inline' && (
+              <div style={{
+                padding: '24px',
+                border: '1px dashed var(--ai-color-border-heavy)',
+                borderRadius: deviceType === 'desktop' ? '24px' : '16px',
+                color: 'var(--ai-color-text-tertiary)',
+                fontSize: '13px',
+                textAlign: 'center',
+              }}>
+                Widget is displayed {displayMode === 'pip' ? 'in picture-in-picture' : 'fullscreen'}
+              </div>
+            )}
           </div>
+
+          {/* Data Editor */}
+          {showDataEditor && (
+            <div style={{ position: 'sticky', top: '16px' }}>
+              <ToolOutputEditor
+                data={toolData}
+                isEdited={isToolDataEdited}
+                reservedNames={Object.keys(getDeclaredDataLoaders())}
+                onApply={handleEditToolData}
+                onRevert={handleRevertToolData}
+                onSave={handleSaveToolData}
+                onClose={() => setShowDataEditor(false)}
+              />
+            </div>
+          )}
+
+          {/* Conversation Pane */}
+          {showConversation && (
+            <div style={{ position: 'sticky', top: '16px' }}>
+              <ConversationPane
+                turns={conversation}
+                sources={Object.keys(followUpSources)}
+                onRespond={handleRespondToFollowUp}
+                onClear={() => setConversation([])}
+                onClose={() => setShowConversation(false)}
+                isResponding={isResponding}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Call Inspector - docked bottom */}
+        {showInspector && inspectorDock === 'bottom' && (
+          <div style={{ position: 'sticky', bottom: 0, marginTop: 'auto', paddingTop: '16px', zIndex: 10 }}>
+            <CallInspector
+              entries={callLog.entries}
+              onClear={callLog.clear}
+              dock={inspectorDock}
+              onDockChange={setInspectorDock}
+              onClose={() => setShowInspector(false)}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Drop target for recorded MCP responses */}
+      {isDraggingFiles && (
+        <div style={{
+          position: 'fixed',
+          inset: '12px',
+          zIndex: 1000,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          border: '2px dashed var(--ai-color-state-info)',
+          borderRadius: '16px',
+          background: 'var(--ai-color-state-info-bg)',
+          color: 'var(--ai-color-state-info)',
+          fontSize: '14px',
+          fontWeight: '600',
+          pointerEvents: 'none',
+        }}>
+          📼 Drop recorded MCP responses (.json) to add them as data sources
         </div>
+      )}
+
+      {/* openExternal confirmation */}
+      {pendingExternalLink && (
+        <ExternalLinkDialog
+          href={pendingExternalLink.href}
+          onConfirm={() => pendingExternalLink.resolve(true)}
+          onCancel={() => pendingExternalLink.resolve(false)}
+        />
+      )}
+
+      {/* Call Inspector - docked right */}
+      {showInspector && inspectorDock === 'right' && (
+        <div style={{ position: 'sticky', top: 0, height: '100vh', flexShrink: 0, zIndex: 10 }}>
+          <CallInspector
+            entries={callLog.entries}
+            onClear={callLog.clear}
+            dock={inspectorDock}
+            onDockChange={setInspectorDock}
+            onClose={() => setShowInspector(false)}
+          />
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,123 @@
+/**
+ * ErrorFixtureMenu - Dropdown for picking the error fixture shown by the Error state
+ */
+
+import { useEffect, useRef, useState } from 'react';
+
+export interface ErrorFixtureMenuProps {
+  /** Names of the available error fixtures */
+  fixtures: string[];
+  /** Fixture shown by the Error button */
+  selected: string;
+  /** Show a fixture */
+  onSelect: (name: string) => void;
+  /** Disable the menu (e.g. while loading) */
+  disabled?: boolean;
+}
+
+export function ErrorFixtureMenu({ fixtures, selected, onSelect, disabled = false }: ErrorFixtureMenuProps) {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click and Escape
+  useEffect(() => {
+    if (!open) return;
+
+    const handlePointerDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handlePointerDown);
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      window.removeEventListener('keydown', handleKeyDown, true);
+    };
+  }, [open]);
+
+  return (
+    <div ref={containerRef} style={{ position: 'relative', display: 'flex' }}>
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        title="Choose error fixture"
+        aria-haspopup="menu"
+        aria-expanded={open}
+        style={{
+          padding: '5px 6px',
+          borderRadius: '5px',
+          border: 'none',
+          background: open ? 'var(--ai-color-state-error-bg)' : 'transparent',
+          color: open ? 'var(--ai-color-state-error)' : 'var(--ai-color-text-secondary)',
+          fontSize: '9px',
+          cursor: disabled ? 'default' : 'pointer',
+          opacity: disabled ? 0.5 : 1,
+        }}
+      >
+        ▼
+      </button>
+
+      {open && (
+        <div
+          role="menu"
+          style={{
+            position: 'absolute',
+            top: 'calc(100% + 6px)',
+            right: 0,
+            minWidth: '180px',
+            padding: '4px',
+            borderRadius: '8px',
+            border: '1px solid var(--ai-color-border-default)',
+            background: 'var(--ai-color-bg-primary)',
+            boxShadow: '0 8px 24px rgba(0, 0, 0, 0.15)',
+            zIndex: 100,
+          }}
+        >
+          {fixtures.map(name => (
+            <button
+              key={name}
+              role="menuitemradio"
+              aria-checked={name === selected}
+              onClick={() => {
+                setOpen(false);
+                onSelect(name);
+              }}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+                width: '100%',
+                padding: '6px 10px',
+                borderRadius: '5px',
+                border: 'none',
+                background: 'transparent',
+                color: name === selected ? 'var(--ai-color-state-error)' : 'var(--ai-color-text-primary)',
+                fontSize: '12px',
+                fontWeight: name === selected ? '600' : '500',
+                textAlign: 'left',
+                cursor: 'pointer',
+              }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.background = 'var(--ai-state-hover-background)';
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.background = 'transparent';
+              }}
+            >
+              <span style={{ width: '12px' }}>{name === selected ? '✓' : ''}</span>
+              {name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+/**
+ * ExternalLinkDialog - Confirmation dialog for intercepted openExternal calls
+ */
+
+import { useEffect } from 'react';
+
+export interface ExternalLinkDialogProps {
+  /** The requested link */
+  href: string;
+  /** Open the link */
+  onConfirm: () => void;
+  /** Dismiss without opening */
+  onCancel: () => void;
+}
+
+export function ExternalLinkDialog({ href, onConfirm, onCancel }: ExternalLinkDialogProps) {
+  // Escape cancels, like the host dialog
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        onCancel();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [onCancel]);
+
+  let hostname = href;
+  try {
+    hostname = new URL(href).hostname;
+  } catch {
+    // Keep the raw href - malformed links never reach the dialog
+  }
+
+  return (
+    <div
+      onClick={onCancel}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 2000,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'rgba(0, 0, 0, 0.4)',
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="devtools-external-link-title"
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          width: 'min(420px, calc(100vw - 32px))',
+          padding: '20px',
+          borderRadius: '16px',
+          background: 'var(--ai-color-bg-primary)',
+          border: '1px solid var(--ai-color-border-default)',
+          boxShadow: '0 12px 32px rgba(0, 0, 0, 0.2)',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '12px',
+        }}
+      >
+        <strong id="devtools-external-link-title" style={{ fontSize: '15px', color: 'var(--ai-color-text-primary)' }}>
+          🌐 Open {hostname}?
+        </strong>
+        <p style={{ margin: 0, fontSize: '13px', color: 'var(--ai-color-text-secondary)' }}>
+          The widget called <code>openExternal</code> with:
+        </p>
+        <code style={{
+          padding: '8px 10px',
+          borderRadius: '8px',
+          background: 'var(--ai-color-bg-tertiary)',
+          color: 'var(--ai-color-text-primary)',
+          fontSize: '12px',
+          wordBreak: 'break-all',
+        }}>
+          {href}
+        </code>
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px', marginTop: '4px' }}>
+          <button
+            onClick={onCancel}
+            style={{
+              padding: '6px 14px',
+              borderRadius: '8px',
+              border: '1px solid var(--ai-color-border-heavy)',
+              background: 'var(--ai-color-bg-primary)',
+              color: 'var(--ai-color-text-primary)',
+              fontSize: '13px',
+              fontWeight: '500',
+              cursor: 'pointer',
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            autoFocus
+            style={{
+              padding: '6px 14px',
+              borderRadius: '8px',
+              border: 'none',
+              background: 'var(--ai-color-brand-primary)',
+              color: 'var(--ai-color-brand-on-primary)',
+              fontSize: '13px',
+              fontWeight: '500',
+              cursor: 'pointer',
+            }}
+          >
+            Open link
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
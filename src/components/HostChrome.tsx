@@ -0,0 +1,96 @@
+/**
+ * HostChrome - Simulated ChatGPT host chrome for non-inline display modes
+ */
+
+import type { DisplayMode } from '@ainativekit/ui';
+
+export interface HostChromeProps {
+  /** Current display mode ('pip' or 'fullscreen') */
+  mode: Exclude<DisplayMode, 'inline'>;
+  /** Title shown in the chrome (widget name) */
+  title: string;
+  /** Request a different display mode */
+  onRequestMode: (mode: DisplayMode) => void;
+}
+
+/** Height of the host chrome bar in fullscreen mode (px) */
+export const FULLSCREEN_CHROME_HEIGHT = 48;
+
+/** Height of the host chrome bar in picture-in-picture mode (px) */
+export const PIP_CHROME_HEIGHT = 36;
+
+const chromeButtonStyle: React.CSSProperties = {
+  width: '28px',
+  height: '28px',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  borderRadius: '50%',
+  border: 'none',
+  background: 'transparent',
+  color: 'var(--ai-color-text-secondary)',
+  fontSize: '14px',
+  cursor: 'pointer',
+};
+
+export function HostChrome({ mode, title, onRequestMode }: HostChromeProps) {
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      boxSizing: 'border-box',
+      height: `${mode === 'fullscreen' ? FULLSCREEN_CHROME_HEIGHT : PIP_CHROME_HEIGHT}px`,
+      padding: mode === 'fullscreen' ? '0 16px' : '0 8px',
+      borderBottom: '1px solid var(--ai-color-border-default)',
+      background: 'var(--ai-color-bg-primary)',
+      flexShrink: 0,
+    }}>
+      <button
+        onClick={() => onRequestMode('inline')}
+        title={mode === 'fullscreen' ? 'Close (Esc)' : 'Close picture-in-picture'}
+        aria-label="Close"
+        style={chromeButtonStyle}
+        onMouseEnter={(e) => {
+          e.currentTarget.style.background = 'var(--ai-state-hover-background)';
+        }}
+        onMouseLeave={(e) => {
+          e.currentTarget.style.background = 'transparent';
+        }}
+      >
+        ✕
+      </button>
+      <span style={{
+        flex: 1,
+        fontSize: mode === 'fullscreen' ? '14px' : '12px',
+        fontWeight: '600',
+        color: 'var(--ai-color-text-primary)',
+        textAlign: mode === 'fullscreen' ? 'center' : 'left',
+        overflow: 'hidden',
+        textOverflow: 'ellipsis',
+        whiteSpace: 'nowrap',
+      }}>
+        {title}
+      </span>
+      {mode === 'pip' ? (
+        <button
+          onClick={() => onRequestMode('fullscreen')}
+          title="Expand to fullscreen"
+          aria-label="Expand to fullscreen"
+          style={chromeButtonStyle}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.background = 'var(--ai-state-hover-background)';
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.background = 'transparent';
+          }}
+        >
+          ⤢
+        </button>
+      ) : (
+        // Keeps the title centered in fullscreen
+        <span style={{ width: '28px' }} />
+      )}
+    </div>
+  );
+}
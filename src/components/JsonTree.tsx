@@ -0,0 +1,117 @@
+/**
+ * JsonTree - Collapsible JSON viewer for devtools panels
+ */
+
+import { useState } from 'react';
+
+export interface JsonTreeProps {
+  /** Value to render */
+  data: unknown;
+  /** Optional label shown before the root value */
+  label?: string;
+  /**
+   * Depth up to which nodes start expanded
+   * @default 1
+   */
+  defaultExpandDepth?: number;
+}
+
+const monoFont = 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace';
+
+function Primitive({ value }: { value: unknown }) {
+  if (value === null || value === undefined) {
+    return <span style={{ color: 'var(--ai-color-text-tertiary)' }}>{String(value)}</span>;
+  }
+  if (typeof value === 'string') {
+    return <span style={{ color: 'var(--ai-color-accent-green)' }}>"{value}"</span>;
+  }
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return <span style={{ color: 'var(--ai-color-accent-blue)' }}>{String(value)}</span>;
+  }
+  if (typeof value === 'boolean') {
+    return <span style={{ color: 'var(--ai-color-accent-orange)' }}>{String(value)}</span>;
+  }
+  if (typeof value === 'function') {
+    return <span style={{ color: 'var(--ai-color-text-tertiary)' }}>ƒ()</span>;
+  }
+  return <span>{String(value)}</span>;
+}
+
+function JsonNode({
+  name,
+  value,
+  depth,
+  defaultExpandDepth,
+}: {
+  name?: string;
+  value: unknown;
+  depth: number;
+  defaultExpandDepth: number;
+}) {
+  const [expanded, setExpanded] = useState(depth < defaultExpandDepth);
+  const isObject = value !== null && typeof value === 'object';
+
+  const label = name !== undefined && (
+    <span style={{ color: 'var(--ai-color-text-secondary)' }}>{name}: </span>
+  );
+
+  if (!isObject) {
+    return (
+      <div style={{ paddingLeft: depth > 0 ? '14px' : 0 }}>
+        {label}
+        <Primitive value={value} />
+      </div>
+    );
+  }
+
+  const isArray = Array.isArray(value);
+  const entries = isArray
+    ? (value as unknown[]).map((item, index) => [String(index), item] as const)
+    : Object.entries(value as Record<string, unknown>);
+  const summary = isArray ? `Array(${entries.length})` : `{${entries.length === 0 ? '' : '…'}}`;
+
+  return (
+    <div style={{ paddingLeft: depth > 0 ? '14px' : 0 }}>
+      <span
+        onClick={() => setExpanded(!expanded)}
+        style={{ cursor: entries.length > 0 ? 'pointer' : 'default', userSelect: 'none' }}
+      >
+        <span style={{
+          display: 'inline-block',
+          width: '10px',
+          fontSize: '8px',
+          color: 'var(--ai-color-text-tertiary)',
+          transform: expanded ? 'rotate(90deg)' : 'rotate(0deg)',
+          transition: 'transform 0.15s',
+        }}>
+          {entries.length > 0 ? '▶' : ''}
+        </span>
+        {label}
+        <span style={{ color: 'var(--ai-color-text-tertiary)' }}>{summary}</span>
+      </span>
+      {expanded && entries.map(([key, child]) => (
+        <JsonNode
+          key={key}
+          name={key}
+          value={child}
+          depth={depth + 1}
+          defaultExpandDepth={defaultExpandDepth}
+        />
+      ))}
+    </div>
+  );
+}
+
+export function JsonTree({ data, label, defaultExpandDepth = 1 }: JsonTreeProps) {
+  return (
+    <div style={{
+      fontFamily: monoFont,
+      fontSize: '11px',
+      lineHeight: '16px',
+      color: 'var(--ai-color-text-primary)',
+      wordBreak: 'break-all',
+    }}>
+      <JsonNode name={label} value={data} depth={0} defaultExpandDepth={defaultExpandDepth} />
+    </div>
+  );
+}
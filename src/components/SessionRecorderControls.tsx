@@ -0,0 +1,108 @@
+/**
+ * SessionRecorderControls - Record a devtools session to a file and replay one
+ */
+
+import { useRef } from 'react';
+import type { SessionRecording } from '../types';
+import { parseSessionRecording } from '../utils/sessionReplay';
+
+export interface SessionRecorderControlsProps {
+  /** Whether a session is being recorded */
+  isRecording: boolean;
+  /** Events recorded so far */
+  eventCount: number;
+  /** Replay progress, while a recording is replayed */
+  replay: { played: number; total: number } | null;
+  onStartRecording: () => void;
+  /** Stop recording and download the session */
+  onStopRecording: () => void;
+  onReplay: (recording: SessionRecording) => void;
+  onStopReplay: () => void;
+}
+
+const sessionButtonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  borderRadius: '6px',
+  border: 'none',
+  background: 'transparent',
+  color: 'var(--ai-color-text-secondary)',
+  fontSize: '12px',
+  fontWeight: '500',
+  cursor: 'pointer',
+  transition: 'all 0.15s',
+  display: 'flex',
+  alignItems: 'center',
+  gap: '4px',
+};
+
+export function SessionRecorderControls({
+  isRecording,
+  eventCount,
+  replay,
+  onStartRecording,
+  onStopRecording,
+  onReplay,
+  onStopReplay,
+}: SessionRecorderControlsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onReplay(parseSessionRecording(JSON.parse(await file.text())));
+    } catch (error) {
+      console.error(`❌ Could not replay "${file.name}":`, error instanceof Error ? error.message : error);
+    }
+  };
+
+  if (replay) {
+    return (
+      <button
+        onClick={onStopReplay}
+        title="Stop replaying and return to live data"
+        style={{
+          ...sessionButtonStyle,
+          background: 'var(--ai-color-state-info-bg)',
+          color: 'var(--ai-color-state-info)',
+        }}
+      >
+        ⏹ {replay.played < replay.total ? 'Replaying' : 'Replayed'} {replay.played}/{replay.total}
+      </button>
+    );
+  }
+
+  return (
+    <>
+      <button
+        onClick={isRecording ? onStopRecording : onStartRecording}
+        title={isRecording ? 'Stop recording and download the session' : 'Record globals, bridge calls and control changes'}
+        style={{
+          ...sessionButtonStyle,
+          background: isRecording ? 'var(--ai-color-state-error-bg)' : 'transparent',
+          color: isRecording ? 'var(--ai-color-state-error)' : 'var(--ai-color-text-secondary)',
+        }}
+      >
+        {isRecording ? `⏹ Stop (${eventCount})` : '⏺ Record'}
+      </button>
+      {!isRecording && (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          title="Replay a recorded session file"
+          style={sessionButtonStyle}
+        >
+          ▶ Replay
+        </button>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        style={{ display: 'none' }}
+        onChange={(e) => {
+          handleFile(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * TimelineControls - Play, pause and step through a streamed tool output timeline
+ */
+
+import type { TimelineStatus } from '../utils/timeline';
+
+export interface TimelineControlsProps {
+  /** Playback state of the current timeline */
+  status: TimelineStatus;
+  onPlay: () => void;
+  onPause: () => void;
+  onStep: () => void;
+}
+
+const controlButtonStyle: React.CSSProperties = {
+  padding: '5px 8px',
+  borderRadius: '5px',
+  border: 'none',
+  background: 'transparent',
+  color: 'var(--ai-color-text-secondary)',
+  fontSize: '12px',
+  fontWeight: '500',
+  cursor: 'pointer',
+  transition: 'all 0.15s',
+};
+
+export function TimelineControls({ status, onPlay, onPause, onStep }: TimelineControlsProps) {
+  const { playing, applied, total, complete } = status;
+  const finished = complete && applied === total;
+  const hasNextStep = applied < total;
+
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: '4px',
+      background: 'var(--ai-color-border-light)',
+      padding: '3px',
+      borderRadius: '8px',
+    }}>
+      <button
+        onClick={playing ? onPause : onPlay}
+        disabled={finished}
+        title={playing ? 'Pause timeline' : 'Play timeline'}
+        style={{
+          ...controlButtonStyle,
+          background: playing ? 'var(--ai-color-state-info)' : 'transparent',
+          color: playing ? 'var(--ai-color-brand-on-primary)' : 'var(--ai-color-text-secondary)',
+          cursor: finished ? 'default' : 'pointer',
+          opacity: finished ? 0.5 : 1,
+        }}
+      >
+        {playing ? '⏸' : '▶'}
+      </button>
+      <button
+        onClick={onStep}
+        disabled={!hasNextStep}
+        title="Apply the next step"
+        style={{
+          ...controlButtonStyle,
+          cursor: hasNextStep ? 'pointer' : 'default',
+          opacity: hasNextStep ? 1 : 0.5,
+        }}
+      >
+        ⏭
+      </button>
+      <span
+        title={complete ? 'Steps applied' : 'Steps applied (more may arrive)'}
+        style={{
+          padding: '0 6px',
+          fontSize: '11px',
+          fontWeight: '500',
+          fontVariantNumeric: 'tabular-nums',
+          color: finished ? 'var(--ai-color-state-success)' : 'var(--ai-color-text-secondary)',
+        }}
+      >
+        🎞️ {applied}/{total}{complete ? '' : '…'}
+      </span>
+    </div>
+  );
+}
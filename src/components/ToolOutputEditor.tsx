@@ -0,0 +1,252 @@
+/**
+ * ToolOutputEditor - Live JSON editor for the data the widget receives
+ */
+
+import { useEffect, useRef, useState } from 'react';
+
+/** Globals the editor can change */
+export type ToolDataField = 'toolOutput' | 'toolResponseMetadata';
+
+/** Current value of each editable global */
+export type ToolData = Record<ToolDataField, unknown>;
+
+export interface ToolOutputEditorProps {
+  /** Values currently published to the widget */
+  data: ToolData;
+  /** Whether the published values differ from what was last loaded */
+  isEdited: boolean;
+  /** Names already used by declared data sources */
+  reservedNames: string[];
+  /** Publish an edited value */
+  onApply: (field: ToolDataField, value: unknown) => void;
+  /** Restore the last loaded values */
+  onRevert: () => void;
+  /** Save the published data as a named data source */
+  onSave: (name: string) => void;
+  /** Close the editor */
+  onClose: () => void;
+}
+
+const FIELDS: ToolDataField[] = ['toolOutput', 'toolResponseMetadata'];
+
+const editorButtonStyle: React.CSSProperties = {
+  padding: '3px 8px',
+  borderRadius: '5px',
+  border: '1px solid var(--ai-color-border-heavy)',
+  background: 'var(--ai-color-bg-primary)',
+  color: 'var(--ai-color-text-secondary)',
+  fontSize: '11px',
+  fontWeight: '500',
+  cursor: 'pointer',
+};
+
+const stringify = (value: unknown) => JSON.stringify(value ?? null, null, 2);
+
+/**
+ * Describe a JSON.parse error with a line and column where the engine reports a position
+ */
+function describeParseError(error: unknown, text: string): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const position = message.match(/at position (\d+)/);
+  if (!position) {
+    return message;
+  }
+  const before = text.slice(0, Number(position[1])).split('\n');
+  const reason = message.replace(/\s*in JSON at position \d+.*$/, '');
+  return `${reason} (line ${before.length}, column ${before[before.length - 1].length + 1})`;
+}
+
+export function ToolOutputEditor({
+  data,
+  isEdited,
+  reservedNames,
+  onApply,
+  onRevert,
+  onSave,
+  onClose,
+}: ToolOutputEditorProps) {
+  const [field, setField] = useState<ToolDataField>('toolOutput');
+  const [draft, setDraft] = useState(() => stringify(data.toolOutput));
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [sourceName, setSourceName] = useState('');
+  // Last value the draft was synced with, to tell our own edits from outside changes
+  const syncedValueRef = useRef<unknown>(data.toolOutput);
+
+  const value = data[field];
+
+  // Reload the draft when the value changes outside the editor (data loaders, tool calls, revert)
+  useEffect(() => {
+    if (value !== syncedValueRef.current) {
+      syncedValueRef.current = value;
+      setDraft(stringify(value));
+      setParseError(null);
+    }
+  }, [value]);
+
+  const handleFieldChange = (next: ToolDataField) => {
+    setField(next);
+    syncedValueRef.current = data[next];
+    setDraft(stringify(data[next]));
+    setParseError(null);
+  };
+
+  // Publish every edit that parses
+  const handleDraftChange = (text: string) => {
+    setDraft(text);
+    try {
+      const parsed = JSON.parse(text);
+      setParseError(null);
+      syncedValueRef.current = parsed;
+      onApply(field, parsed);
+    } catch (error) {
+      setParseError(describeParseError(error, text));
+    }
+  };
+
+  const trimmedName = sourceName.trim();
+  const nameTaken = reservedNames.includes(trimmedName);
+
+  const handleSave = () => {
+    if (!trimmedName || nameTaken) return;
+    onSave(trimmedName);
+    setSourceName('');
+  };
+
+  return (
+    <div style={{
+      width: '360px',
+      flexShrink: 0,
+      display: 'flex',
+      flexDirection: 'column',
+      maxHeight: 'calc(100vh - 32px)',
+      border: '1px solid var(--ai-color-border-default)',
+      borderRadius: '16px',
+      background: 'var(--ai-color-bg-primary)',
+      overflow: 'hidden',
+    }}>
+      {/* Header */}
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '6px',
+        padding: '8px 12px',
+        borderBottom: '1px solid var(--ai-color-border-default)',
+      }}>
+        <span style={{ flex: 1, fontSize: '12px', fontWeight: '600', color: 'var(--ai-color-text-primary)' }}>
+          {'{ }'} Data{isEdited && (
+            <span style={{ marginLeft: '6px', fontSize: '11px', fontWeight: '500', color: 'var(--ai-color-state-warning)' }}>
+              ● edited
+            </span>
+          )}
+        </span>
+        <button onClick={onRevert} disabled={!isEdited} title="Restore the loaded data" style={editorButtonStyle}>
+          Revert
+        </button>
+        <button onClick={onClose} title="Close editor" style={editorButtonStyle}>
+          ✕
+        </button>
+      </div>
+
+      {/* Field tabs */}
+      <div style={{ display: 'flex', gap: '4px', padding: '8px 12px 0' }}>
+        {FIELDS.map(name => (
+          <button
+            key={name}
+            onClick={() => handleFieldChange(name)}
+            style={{
+              ...editorButtonStyle,
+              border: 'none',
+              background: field === name ? 'var(--ai-color-state-info-bg)' : 'transparent',
+              color: field === name ? 'var(--ai-color-state-info)' : 'var(--ai-color-text-secondary)',
+            }}
+          >
+            {name}
+          </button>
+        ))}
+        <div style={{ flex: 1 }} />
+        <button
+          onClick={() => handleDraftChange(stringify(JSON.parse(draft)))}
+          disabled={parseError !== null}
+          title="Pretty-print"
+          style={editorButtonStyle}
+        >
+          Format
+        </button>
+      </div>
+
+      {/* Editor */}
+      <div style={{ flex: 1, minHeight: 0, display: 'flex', flexDirection: 'column', gap: '6px', padding: '8px 12px' }}>
+        <textarea
+          value={draft}
+          onChange={(e) => handleDraftChange(e.target.value)}
+          spellCheck={false}
+          aria-invalid={parseError !== null}
+          style={{
+            flex: 1,
+            minHeight: '240px',
+            padding: '8px 10px',
+            borderRadius: '8px',
+            border: `1px solid ${parseError ? 'var(--ai-color-state-error)' : 'var(--ai-color-border-heavy)'}`,
+            background: 'var(--ai-color-bg-secondary)',
+            color: 'var(--ai-color-text-primary)',
+            fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace',
+            fontSize: '12px',
+            lineHeight: '18px',
+            resize: 'vertical',
+            outline: 'none',
+            tabSize: 2,
+          }}
+        />
+        <div style={{
+          fontSize: '11px',
+          color: parseError ? 'var(--ai-color-state-error)' : 'var(--ai-color-text-tertiary)',
+        }}>
+          {parseError ? `⚠️ ${parseError}` : 'Valid JSON is applied to the widget as you type'}
+        </div>
+      </div>
+
+      {/* Save as data source */}
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '6px',
+        padding: '8px 12px',
+        borderTop: '1px solid var(--ai-color-border-default)',
+      }}>
+        <input
+          value={sourceName}
+          onChange={(e) => setSourceName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSave();
+          }}
+          placeholder="Save as data source…"
+          title={nameTaken ? `"${trimmedName}" is a declared data source` : 'Available in the data source menu until reload'}
+          style={{
+            flex: 1,
+            minWidth: 0,
+            padding: '4px 8px',
+            borderRadius: '6px',
+            border: `1px solid ${nameTaken ? 'var(--ai-color-state-error)' : 'var(--ai-color-border-heavy)'}`,
+            background: 'var(--ai-color-bg-primary)',
+            color: 'var(--ai-color-text-primary)',
+            fontSize: '12px',
+            outline: 'none',
+          }}
+        />
+        <button
+          onClick={handleSave}
+          disabled={!trimmedName || nameTaken}
+          style={{
+            ...editorButtonStyle,
+            border: 'none',
+            background: 'var(--ai-color-state-info)',
+            color: 'var(--ai-color-brand-on-primary)',
+            opacity: !trimmedName || nameTaken ? 0.5 : 1,
+          }}
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
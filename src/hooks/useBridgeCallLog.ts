@@ -0,0 +1,63 @@
+import { useCallback, useRef, useState } from 'react';
+import type { BridgeCallEntry, BridgeMethod } from '../types';
+
+/** Maximum number of entries kept in the call log */
+const MAX_ENTRIES = 500;
+
+/**
+ * Records `window.openai` bridge calls for the call inspector
+ *
+ * `track` wraps a bridge implementation: it logs a pending entry, runs the
+ * implementation and settles the entry with its result or error. Errors are
+ * re-thrown so widgets observe the same behavior as without tracking.
+ *
+ * @param getWidgetId - Returns the ID of the currently active widget
+ */
+export function useBridgeCallLog(getWidgetId: () => string) {
+  const [entries, setEntries] = useState<BridgeCallEntry[]>([]);
+  const nextIdRef = useRef(1);
+  const getWidgetIdRef = useRef(getWidgetId);
+  getWidgetIdRef.current = getWidgetId;
+
+  const updateEntry = useCallback((id: number, patch: Partial<BridgeCallEntry>) => {
+    setEntries(log => log.map(entry => (entry.id === id ? { ...entry, ...patch } : entry)));
+  }, []);
+
+  const track = useCallback(async <T>(
+    method: BridgeMethod,
+    args: unknown,
+    implementation: () => T | Promise<T>
+  ): Promise<T> => {
+    const id = nextIdRef.current++;
+    const start = performance.now();
+
+    setEntries(log => [
+      ...log.slice(-(MAX_ENTRIES - 1)),
+      {
+        id,
+        method,
+        args,
+        widgetId: getWidgetIdRef.current(),
+        timestamp: Date.now(),
+        status: 'pending',
+      },
+    ]);
+
+    try {
+      const result = await implementation();
+      updateEntry(id, { status: 'resolved', result, duration: performance.now() - start });
+      return result;
+    } catch (error) {
+      updateEntry(id, {
+        status: 'rejected',
+        error: error instanceof Error ? error.message : String(error),
+        duration: performance.now() - start,
+      });
+      throw error;
+    }
+  }, [updateEntry]);
+
+  const clear = useCallback(() => setEntries([]), []);
+
+  return { entries, track, clear };
+}
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Track the rendered height of an element with a ResizeObserver
+ *
+ * Returns a callback ref rather than taking a ref object, so observation
+ * starts whenever the element mounts (e.g. after DevContainer initializes).
+ *
+ * @returns Tuple of the callback ref to attach and the current height in pixels
+ */
+export function useElementHeight<T extends HTMLElement = HTMLDivElement>() {
+  const [element, setElement] = useState<T | null>(null);
+  const [height, setHeight] = useState(0);
+
+  useEffect(() => {
+    if (!element || typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(() => {
+      setHeight(Math.ceil(element.getBoundingClientRect().height));
+    });
+    observer.observe(element);
+
+    return () => observer.disconnect();
+  }, [element]);
+
+  return [setElement, height] as const;
+}
@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useState } from 'react';
+
+const STORAGE_PREFIX = 'devtools.recentScenarios.';
+const MAX_RECENT = 5;
+
+function loadRecent(key: string): string[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key);
+    const names: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(names) ? names.filter((name): name is string => typeof name === 'string') : [];
+  } catch (error) {
+    console.warn(`⚠️ Ignoring unreadable recent scenarios for "${key}":`, error);
+    return [];
+  }
+}
+
+/**
+ * Recently used scenario names, most recent first, persisted to localStorage
+ *
+ * @param key - Separates the lists, e.g. per widget
+ */
+export function useRecentScenarios(key: string) {
+  const [recent, setRecent] = useState(() => loadRecent(key));
+
+  useEffect(() => {
+    setRecent(loadRecent(key));
+  }, [key]);
+
+  const addRecent = useCallback((name: string) => {
+    const next = [name, ...loadRecent(key).filter(item => item !== name)].slice(0, MAX_RECENT);
+    setRecent(next);
+    try {
+      localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(next));
+    } catch (error) {
+      console.warn(`⚠️ Could not persist recent scenarios for "${key}":`, error);
+    }
+  }, [key]);
+
+  return [recent, addRecent] as const;
+}
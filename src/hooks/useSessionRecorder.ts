@@ -0,0 +1,76 @@
+import { useCallback, useRef, useState } from 'react';
+import type { OpenAiGlobals } from '@ainativekit/ui';
+import type { SessionControls, SessionEvent, SessionRecording } from '../types';
+
+/** A session event before its timestamp is added (distributes over the event union) */
+type Untimed<E> = E extends SessionEvent ? Omit<E, 't'> : never;
+type UntimedSessionEvent = Untimed<SessionEvent>;
+
+/**
+ * Records a devtools session for replay
+ *
+ * `record` and `recordControls` are safe to call at any time - they do nothing
+ * unless a recording is running, so the mocked bridge can call them from
+ * closures created on mount.
+ */
+export function useSessionRecorder() {
+  const [isRecording, setIsRecording] = useState(false);
+  const [eventCount, setEventCount] = useState(0);
+  const recordingRef = useRef<SessionRecording | null>(null);
+  const startedAtRef = useRef(0);
+  const lastControlsRef = useRef<SessionControls | null>(null);
+
+  const push = useCallback((event: SessionEvent) => {
+    recordingRef.current?.events.push(event);
+    setEventCount(count => count + 1);
+  }, []);
+
+  /** Record an event now, or at `startedAt` (epoch milliseconds) for events that settle later */
+  const record = useCallback((event: UntimedSessionEvent, startedAt = Date.now()) => {
+    if (!recordingRef.current) return;
+    push({ ...event, t: Math.max(0, startedAt - startedAtRef.current) } as SessionEvent);
+  }, [push]);
+
+  /** Record the controls that changed since the last call */
+  const recordControls = useCallback((controls: SessionControls) => {
+    const last = lastControlsRef.current;
+    if (!recordingRef.current || !last) return;
+    for (const control of Object.keys(controls) as (keyof SessionControls)[]) {
+      if (controls[control] !== last[control]) {
+        record({ type: 'control', control, value: controls[control] });
+      }
+    }
+    lastControlsRef.current = controls;
+  }, [record]);
+
+  const start = useCallback((controls: SessionControls, globals: Partial<OpenAiGlobals>) => {
+    const now = Date.now();
+    startedAtRef.current = now;
+    lastControlsRef.current = controls;
+    recordingRef.current = {
+      version: 1,
+      recordedAt: new Date(now).toISOString(),
+      duration: 0,
+      initial: { controls, globals },
+      events: [],
+    };
+    setEventCount(0);
+    setIsRecording(true);
+  }, []);
+
+  /** Stop recording and return the session, with events ordered by time */
+  const stop = useCallback((): SessionRecording | null => {
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    lastControlsRef.current = null;
+    setIsRecording(false);
+    if (!recording) return null;
+    return {
+      ...recording,
+      duration: Date.now() - startedAtRef.current,
+      events: [...recording.events].sort((a, b) => a.t - b.t),
+    };
+  }, []);
+
+  return { isRecording, eventCount, record, recordControls, start, stop };
+}
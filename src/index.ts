@@ -56,6 +56,9 @@
  *   );
  * }
  * ```
+ *
+ * The widget portal and scenario helpers are published separately as
+ * `@ainativekit/devtools/portal` and `@ainativekit/devtools/mock`.
  */
 
 /**
@@ -71,7 +74,30 @@ export { DevContainer } from './components/DevContainer';
  * @see {@link MockDataConfig} for configuration options
  */
 export { createMockData } from './utils/createMockData';
-export type { MockData, MockDataConfig } from './utils/createMockData';
+export type { MockData, MockDataConfig, SchemaMockDataConfig } from './utils/createMockData';
+
+/**
+ * Seeded, offline mock data generation from a JSON Schema
+ * Used by `createMockData({ schema })`; also usable on its own for ad-hoc fixtures
+ * @see {@link MockSchema} for the supported keywords
+ */
+export { generateFromSchema, emptyFromSchema } from './utils/mockSchema';
+export type { MockSchema, MockSchemaType, GenerateOptions } from './utils/mockSchema';
+export type { MockVariantName } from './utils/mockVariants';
+
+/**
+ * Wrap an MCP-style tool result returned by a data loader or tool handler
+ * `structuredContent` becomes `toolOutput`, `_meta` becomes `toolResponseMetadata`
+ * @see {@link ToolResult}
+ */
+export { toolResult } from './utils/toolResults';
+
+/**
+ * Import recorded MCP `tools/call` responses as data loaders or `WidgetPortal` scenarios
+ * Entries are named after the tool and its arguments, which also become `toolInput`
+ */
+export { mcpDataLoaders, mcpScenarios } from './utils/mcpRecordings';
+export type { RecordedToolCall, McpRecordingFiles } from './utils/mcpRecordings';
 
 // Type exports
 export type {
@@ -87,6 +113,13 @@ export type {
    * Device type for viewport simulation ('desktop' | 'tablet' | 'mobile')
    */
   DeviceType,
+  /**
+   * Custom device profiles for the device switcher
+   */
+  DeviceProfile,
+  NetworkProfile,
+  DeviceCapabilities,
+  SafeAreaInsets,
   /**
    * Debug mode options ('none' | 'border')
    */
@@ -95,6 +128,70 @@ export type {
    * Widget state for testing ('loading' | 'data' | 'empty' | 'error')
    */
   WidgetState,
+  /**
+   * Devtools-only globals exposed on `window.openaiDevtools`
+   */
+  DevtoolsGlobals,
+  /**
+   * Data loader types ('() => data' or '{ load, toolInput }')
+   */
+  DataLoader,
+  DataLoaderFn,
+  DataLoaderConfig,
+  DataLoaderContext,
+  /**
+   * Tool input value or factory exposed as `window.openai.toolInput`
+   */
+  ToolInputSource,
+  /**
+   * Turn in the simulated conversation pane
+   */
+  ConversationTurn,
+  /**
+   * MCP-style tool result returned by data loaders and tool handlers
+   */
+  ToolResult,
+  ToolContentBlock,
+  /**
+   * Error fixtures for the Error menu and data loader failures
+   */
+  ErrorFixture,
+  ErrorFixtures,
+  /**
+   * Tool output delivered in stages
+   */
+  Timeline,
+  TimelineStep,
+  /**
+   * Recorded devtools sessions (Record / Replay in the toolbar)
+   */
+  SessionRecording,
+  SessionEvent,
+  SessionControls,
+  /**
+   * Tool handler types for mocking `window.openai.callTool`
+   */
+  ToolHandler,
+  ToolHandlerFn,
+  ToolHandlerConfig,
+  ToolHandlerContext,
+  ToolHandlers,
+  /**
+   * Bridge call entries recorded by the call inspector
+   */
+  BridgeMethod,
+  BridgeCallEntry,
+  /**
+   * Overflow handling for content taller than maxHeight ('scroll' | 'clip')
+   */
+  OverflowMode,
+  /**
+   * openExternal interception settings and results
+   */
+  OpenExternalMode,
+  OpenExternalConfig,
+  OpenExternalOutcome,
+  OpenExternalResult,
   // Re-exported from ChatGPT Apps SDK (@ainativekit/ui)
   Theme,
   OpenAiGlobals,
@@ -112,6 +209,38 @@ export type {
  */
 export { VIEWPORT_PRESETS } from './types';
 
+/**
+ * Built-in device profiles (desktop, tablet, mobile)
+ */
+export { DEVICE_PROFILES } from './types';
+
+/**
+ * Built-in network profiles for the toolbar network picker
+ */
+export { NETWORK_PROFILES } from './types';
+
+/**
+ * Default `window.openai.maxHeight` presets per device and display mode
+ * Fullscreen uses the full window height below the host chrome
+ */
+export { MAX_HEIGHT_PRESETS } from './types';
+
+/**
+ * Built-in error fixtures offered in the Error menu
+ */
+export { ERROR_FIXTURES } from './utils/errorFixtures';
+
+/**
+ * Locales offered by the toolbar locale picker (including RTL locales)
+ */
+export { LOCALE_PRESETS } from './types';
+
+/**
+ * Event type dispatched on `window` when the devtools widget state changes
+ * (`'loading' | 'data' | 'empty' | 'error'`)
+ */
+export { DEVTOOLS_STATE_EVENT_TYPE } from './types';
+
 /**
  * Current version of @ainativekit/devtools
  * @constant
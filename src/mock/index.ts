@@ -6,3 +6,12 @@
 export { createScenarios, mergeScenarios } from './createScenarios';
 export { commonScenarios } from './types';
 export type { Scenario, ScenarioCollection } from './types';
+export {
+  exportScenarios,
+  parseScenarioFile,
+  encodeScenarioLink,
+  decodeScenarioLink,
+  SCENARIO_LINK_PARAM,
+  MAX_SCENARIO_LINK_LENGTH,
+} from './scenarioFiles';
+export type { ScenarioFile } from './scenarioFiles';
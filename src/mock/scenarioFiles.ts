@@ -0,0 +1,132 @@
+/**
+ * Scenario files and share links
+ * Lets scenarios travel outside the bundle: exported to JSON, imported into a
+ * running portal, or encoded into a URL.
+ */
+
+import type { Scenario, ScenarioCollection } from './types';
+
+/**
+ * Exported scenarios, as written to a JSON file
+ * Data and tool input factories are resolved to plain values on export.
+ */
+export interface ScenarioFile {
+  /** Marks scenario files */
+  format: 'ainativekit-scenarios';
+  version: 1;
+  /** ID of the widget the scenarios were exported from */
+  widget?: string;
+  scenarios: Scenario[];
+}
+
+/** URL search parameter holding a shared scenario */
+export const SCENARIO_LINK_PARAM = 'scenario';
+
+/** Encoded scenarios longer than this make unwieldy links */
+export const MAX_SCENARIO_LINK_LENGTH = 8000;
+
+/**
+ * Resolve a scenario's data and tool input factories to plain values
+ * @throws If the data is an async iterable, which can't be serialized
+ */
+async function toPlainScenario(scenario: Scenario): Promise<Scenario> {
+  const data = typeof scenario.data === 'function' ? await scenario.data() : scenario.data;
+  if (data !== null && typeof data === 'object' && Symbol.asyncIterator in data) {
+    throw new Error(`Scenario "${scenario.name}" streams its data and can't be exported`);
+  }
+  const toolInput = typeof scenario.toolInput === 'function' ? await scenario.toolInput() : scenario.toolInput;
+
+  const plain: Scenario = { name: scenario.name, data };
+  if (toolInput !== undefined) plain.toolInput = toolInput;
+  if (scenario.delay !== undefined) plain.delay = scenario.delay;
+  if (scenario.description !== undefined) plain.description = scenario.description;
+  if (scenario.group !== undefined) plain.group = scenario.group;
+  if (scenario.tags !== undefined) plain.tags = scenario.tags;
+  return plain;
+}
+
+/**
+ * Export scenarios for a JSON file
+ *
+ * @param scenarios - Scenarios to export
+ * @param widget - ID of the widget they belong to
+ */
+export async function exportScenarios(scenarios: Scenario[], widget?: string): Promise<ScenarioFile> {
+  return {
+    format: 'ainativekit-scenarios',
+    version: 1,
+    ...(widget ? { widget } : {}),
+    scenarios: await Promise.all(scenarios.map(toPlainScenario)),
+  };
+}
+
+const isScenario = (value: unknown): value is Scenario =>
+  value !== null && typeof value === 'object' && typeof (value as Scenario).name === 'string' && 'data' in value;
+
+/**
+ * Read scenarios from a parsed JSON file
+ * Accepts exported scenario files, plain `ScenarioCollection`s and single scenarios.
+ *
+ * @throws If the file contains no scenarios
+ */
+export function parseScenarioFile(value: unknown): ScenarioFile {
+  const file = value as Partial<ScenarioFile> & ScenarioCollection;
+  const scenarios = isScenario(value) ? [value] : Array.isArray(file?.scenarios) ? file.scenarios.filter(isScenario) : [];
+  if (scenarios.length === 0) {
+    throw new Error('No scenarios found (expected an exported scenario file, a scenario collection or a scenario)');
+  }
+  return {
+    format: 'ainativekit-scenarios',
+    version: 1,
+    ...(typeof file?.widget === 'string' ? { widget: file.widget } : {}),
+    scenarios,
+  };
+}
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// Run bytes through a compression or decompression stream
+async function pipeBytes(bytes: BufferSource, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const response = new Response(new Blob([bytes]).stream().pipeThrough(stream));
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Encode a scenario for a share link
+ * The JSON is deflated where the browser supports `CompressionStream`, then
+ * base64url-encoded. The first character tells the forms apart (`z` deflated, `j` plain).
+ */
+export async function encodeScenarioLink(scenario: Scenario): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(await toPlainScenario(scenario)));
+  if (typeof CompressionStream === 'undefined') {
+    return `j${toBase64Url(json)}`;
+  }
+  return `z${toBase64Url(await pipeBytes(json, new CompressionStream('deflate-raw')))}`;
+}
+
+/**
+ * Decode a scenario from a share link
+ * @throws If the value is not an encoded scenario
+ */
+export async function decodeScenarioLink(encoded: string): Promise<Scenario> {
+  const bytes = fromBase64Url(encoded.slice(1));
+  const json = encoded.startsWith('z')
+    ? await pipeBytes(bytes, new DecompressionStream('deflate-raw'))
+    : bytes;
+  const scenario: unknown = JSON.parse(new TextDecoder().decode(json));
+  if (!isScenario(scenario)) {
+    throw new Error('The link does not contain a scenario');
+  }
+  return scenario;
+}
@@ -3,6 +3,8 @@
  * Enables reusable test data scenarios across widgets
  */
 
+import type { Timeline, ToolInputSource } from '../types';
+
 /**
  * A single test scenario with data and optional delay
  */
@@ -10,14 +12,23 @@ export interface Scenario<T = any> {
   /** Display name for the scenario */
   name: string;
 
-  /** The mock data to provide to the widget */
-  data: T | (() => T | Promise<T>);
+  /** The mock data to provide to the widget, or a `Timeline` to stream it in stages */
+  data: T | Timeline | (() => T | Timeline | Promise<T | Timeline>);
+
+  /** Optional tool input (the arguments the model passed to the tool) */
+  toolInput?: ToolInputSource;
 
   /** Optional delay in ms to simulate network latency */
   delay?: number;
 
   /** Optional description for developer reference */
   description?: string;
+
+  /** Optional section the scenario is listed under in the picker */
+  group?: string;
+
+  /** Optional tags, matched by the picker search (`#tag` matches tags only) */
+  tags?: string[];
 }
 
 /**
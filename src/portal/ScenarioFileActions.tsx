@@ -0,0 +1,108 @@
+/**
+ * ScenarioFileActions - Export, import and share scenarios
+ */
+
+import { useRef, useState } from 'react';
+
+export interface ScenarioFileActionsProps {
+  /** Whether a scenario is selected (enables export and sharing of it) */
+  hasSelection: boolean;
+  /** Whether the widget has any scenario to export */
+  hasScenarios: boolean;
+  onExportSelected: () => void;
+  onExportAll: () => void;
+  /** Import scenario files */
+  onImport: (files: File[]) => void;
+  /** Copy a share link for the selected scenario; resolves to an error message on failure */
+  onCopyLink: () => Promise<string | null>;
+}
+
+const actionButtonStyle: React.CSSProperties = {
+  padding: '4px 10px',
+  borderRadius: '6px',
+  border: '1px solid var(--ai-color-border-default)',
+  background: 'var(--ai-color-bg-primary)',
+  color: 'var(--ai-color-text-secondary)',
+  fontSize: '0.75rem',
+  fontWeight: '500',
+  cursor: 'pointer',
+  whiteSpace: 'nowrap',
+};
+
+const disabledStyle = (disabled: boolean): React.CSSProperties => ({
+  cursor: disabled ? 'not-allowed' : 'pointer',
+  opacity: disabled ? 0.5 : 1,
+});
+
+export function ScenarioFileActions({
+  hasSelection,
+  hasScenarios,
+  onExportSelected,
+  onExportAll,
+  onImport,
+  onCopyLink,
+}: ScenarioFileActionsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [linkStatus, setLinkStatus] = useState<{ ok: boolean; message: string } | null>(null);
+
+  const handleCopyLink = async () => {
+    const error = await onCopyLink();
+    setLinkStatus(error ? { ok: false, message: error } : { ok: true, message: 'Link copied' });
+    setTimeout(() => setLinkStatus(null), 2500);
+  };
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '6px', flexWrap: 'wrap' }}>
+      {linkStatus && (
+        <span style={{
+          fontSize: '0.75rem',
+          color: linkStatus.ok ? 'var(--ai-color-state-success)' : 'var(--ai-color-state-error)',
+        }}>
+          {linkStatus.message}
+        </span>
+      )}
+      <button
+        onClick={handleCopyLink}
+        disabled={!hasSelection}
+        title="Copy a link that opens the portal with this widget and scenario"
+        style={{ ...actionButtonStyle, ...disabledStyle(!hasSelection) }}
+      >
+        🔗 Share
+      </button>
+      <button
+        onClick={onExportSelected}
+        disabled={!hasSelection}
+        title="Download the selected scenario as JSON"
+        style={{ ...actionButtonStyle, ...disabledStyle(!hasSelection) }}
+      >
+        ⬇ Export
+      </button>
+      <button
+        onClick={onExportAll}
+        disabled={!hasScenarios}
+        title="Download every scenario of this widget as JSON"
+        style={{ ...actionButtonStyle, ...disabledStyle(!hasScenarios) }}
+      >
+        ⬇ Export all
+      </button>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        title="Add scenarios from exported JSON files"
+        style={actionButtonStyle}
+      >
+        ⬆ Import
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        multiple
+        style={{ display: 'none' }}
+        onChange={(e) => {
+          onImport(Array.from(e.target.files ?? []));
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+}
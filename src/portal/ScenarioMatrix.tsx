@@ -0,0 +1,200 @@
+/**
+ * ScenarioMatrix - One widget rendered for every scenario, theme and device
+ * Rows are scenarios, columns theme × device combinations. Each cell is an
+ * isolated tile with its own mocked globals (see `tiles.tsx`).
+ */
+
+import { useState } from 'react';
+import { Badge } from '@ainativekit/ui';
+import type { Scenario } from '../mock';
+import { DEVICE_PROFILES } from '../types';
+import type { DeviceType, Theme } from '../types';
+import { TileFrame, toTileKey, useTileErrors } from './tiles';
+import type { WidgetDefinition } from './types';
+
+/**
+ * A matrix cell
+ */
+export interface MatrixCell {
+  /** Scenario name */
+  scenario: string;
+  theme: Theme;
+  device: DeviceType;
+}
+
+export interface ScenarioMatrixProps {
+  /** Widget to render */
+  widget: WidgetDefinition;
+
+  /** Scenarios, one row each */
+  scenarios: Scenario[];
+
+  /** Themes to render (default light and dark) */
+  themes?: Theme[];
+
+  /** Devices to render (default desktop, tablet and mobile) */
+  devices?: DeviceType[];
+
+  /** Callback when a cell is clicked */
+  onOpenCell: (cell: MatrixCell) => void;
+}
+
+const ALL_THEMES: Theme[] = ['light', 'dark'];
+const ALL_DEVICES: DeviceType[] = ['desktop', 'tablet', 'mobile'];
+const THEME_LABELS: Record<Theme, string> = { light: '☀️ Light', dark: '🌙 Dark' };
+
+/** Height the cell page is rendered at, before scaling */
+const CELL_HEIGHT = 480;
+const CELL_SCALE = 0.3;
+// DevContainer pads the viewport by 16px on each side
+const cellWidth = (device: DeviceType) => DEVICE_PROFILES[device].width + 32;
+
+const filterChipStyle = (active: boolean): React.CSSProperties => ({
+  border: 'none',
+  background: 'none',
+  padding: 0,
+  cursor: 'pointer',
+  opacity: active ? 1 : 0.6,
+});
+
+// Toggle a value in a filter list, keeping at least one value
+function toggle<T>(values: T[], value: T): T[] {
+  if (!values.includes(value)) return [...values, value];
+  return values.length > 1 ? values.filter(item => item !== value) : values;
+}
+
+export function ScenarioMatrix({
+  widget,
+  scenarios,
+  themes = ALL_THEMES,
+  devices = ALL_DEVICES,
+  onOpenCell,
+}: ScenarioMatrixProps) {
+  const [hiddenScenarios, setHiddenScenarios] = useState<string[]>([]);
+  const [shownThemes, setShownThemes] = useState(themes);
+  const [shownDevices, setShownDevices] = useState(devices);
+  const [errors] = useTileErrors();
+
+  const rows = scenarios.filter(scenario => !hiddenScenarios.includes(scenario.name));
+  const columns = themes
+    .filter(theme => shownThemes.includes(theme))
+    .flatMap(theme => devices.filter(device => shownDevices.includes(device)).map(device => ({ theme, device })));
+
+  const renderFilter = (label: string, chips: { key: string; label: string; active: boolean; onToggle: () => void }[]) => (
+    <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+      <span style={{ fontSize: '0.75rem', color: 'var(--ai-color-text-tertiary)', fontWeight: '500', minWidth: '64px' }}>
+        {label}
+      </span>
+      {chips.map(chip => (
+        <button key={chip.key} onClick={chip.onToggle} style={filterChipStyle(chip.active)}>
+          <Badge color={chip.active ? 'primary' : 'secondary'} variant={chip.active ? 'solid' : 'outline'}>
+            {chip.label}
+          </Badge>
+        </button>
+      ))}
+    </div>
+  );
+
+  if (scenarios.length === 0) {
+    return (
+      <div style={{ padding: '40px', textAlign: 'center', color: 'var(--ai-color-text-secondary)' }}>
+        {widget.name} has no scenarios to render.
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ padding: '16px', display: 'flex', flexDirection: 'column', gap: '16px' }}>
+      {/* Row and column filters */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+        {renderFilter('Scenarios', scenarios.map(scenario => ({
+          key: scenario.name,
+          label: scenario.name,
+          active: !hiddenScenarios.includes(scenario.name),
+          onToggle: () => setHiddenScenarios(hidden => (
+            hidden.includes(scenario.name)
+              ? hidden.filter(name => name !== scenario.name)
+              : hidden.length < scenarios.length - 1 ? [...hidden, scenario.name] : hidden
+          )),
+        })))}
+        {renderFilter('Themes', themes.map(theme => ({
+          key: theme,
+          label: THEME_LABELS[theme],
+          active: shownThemes.includes(theme),
+          onToggle: () => setShownThemes(shown => toggle(shown, theme)),
+        })))}
+        {renderFilter('Devices', devices.map(device => ({
+          key: device,
+          label: DEVICE_PROFILES[device].name,
+          active: shownDevices.includes(device),
+          onToggle: () => setShownDevices(shown => toggle(shown, device)),
+        })))}
+      </div>
+
+      {/* Grid - one row per scenario, one column per theme and device */}
+      <div style={{ overflowX: 'auto' }}>
+        <div
+          style={{
+            display: 'grid',
+            gridTemplateColumns: `140px ${columns.map(({ device }) => `${cellWidth(device) * CELL_SCALE}px`).join(' ')}`,
+            gap: '12px',
+            alignItems: 'start',
+          }}
+        >
+          <div />
+          {columns.map(({ theme, device }) => (
+            <div
+              key={`${theme}-${device}`}
+              style={{ fontSize: '0.75rem', fontWeight: '600', color: 'var(--ai-color-text-secondary)' }}
+            >
+              {THEME_LABELS[theme]} · {DEVICE_PROFILES[device].name}
+            </div>
+          ))}
+
+          {rows.map(scenario => [
+            <div
+              key={scenario.name}
+              title={scenario.description || scenario.name}
+              style={{ fontSize: '0.875rem', fontWeight: '500', color: 'var(--ai-color-text-primary)', wordBreak: 'break-word' }}
+            >
+              {scenario.name}
+            </div>,
+            ...columns.map(({ theme, device }) => {
+              const tile = { widgetId: widget.id, scenario: scenario.name, theme, device };
+              const error = errors[toTileKey(tile)];
+              return (
+                <button
+                  key={`${scenario.name}-${theme}-${device}`}
+                  onClick={() => onOpenCell({ scenario: scenario.name, theme, device })}
+                  title={error ? `Render error: ${error}` : `Open ${scenario.name} · ${theme} · ${device}`}
+                  style={{
+                    position: 'relative',
+                    padding: 0,
+                    border: `1px solid ${error ? 'var(--ai-color-state-error)' : 'var(--ai-color-border-default)'}`,
+                    borderRadius: '8px',
+                    overflow: 'hidden',
+                    cursor: 'pointer',
+                    background: 'none',
+                  }}
+                >
+                  <TileFrame
+                    tile={tile}
+                    title={`${widget.name} - ${scenario.name}, ${theme}, ${device}`}
+                    width={cellWidth(device)}
+                    height={CELL_HEIGHT}
+                    scale={CELL_SCALE}
+                  />
+                  {error && (
+                    <span style={{ position: 'absolute', top: '4px', right: '4px' }}>
+                      <Badge color="danger" variant="solid">Error</Badge>
+                    </span>
+                  )}
+                </button>
+              );
+            }),
+          ])}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,17 @@
 /**
  * ScenarioPicker - UI component for selecting mock data scenarios
+ *
+ * Scenarios are listed in sections by `group`, after the recently used ones.
+ * The search box fuzzily matches names, groups, tags and descriptions. With
+ * focus in the picker, arrow keys move the highlight, Enter selects it and
+ * 1-9 select the nth listed scenario (outside the search box).
  */
 
+import { useId, useState } from 'react';
 import { Badge } from '@ainativekit/ui';
 import type { Scenario } from '../mock';
+import { useRecentScenarios } from '../hooks/useRecentScenarios';
+import { groupScenarios, searchScenarios } from './scenarioSearch';
 
 export interface ScenarioPickerProps {
   /** Available scenarios to pick from */
@@ -17,58 +25,198 @@ export interface ScenarioPickerProps {
 
   /** Whether a scenario is currently loading */
   isLoading?: boolean;
+
+  /** Key the recently used list is stored under, e.g. the widget ID */
+  recentKey?: string;
 }
 
+const sectionLabelStyle: React.CSSProperties = {
+  fontSize: '0.6875rem',
+  color: 'var(--ai-color-text-tertiary)',
+  fontWeight: '600',
+  textTransform: 'uppercase',
+  letterSpacing: '0.04em',
+  minWidth: '72px',
+};
+
+// Tooltip with the description and tags
+const toTitle = (scenario: Scenario) =>
+  [scenario.description || scenario.name, scenario.tags?.length ? `Tags: ${scenario.tags.join(', ')}` : '']
+    .filter(Boolean)
+    .join('\n');
+
 export function ScenarioPicker({
   scenarios,
   selectedScenario,
   onSelectScenario,
   isLoading = false,
+  recentKey = 'default',
 }: ScenarioPickerProps) {
+  const [query, setQuery] = useState('');
+  // Index of the highlighted scenario in the listed order, or -1
+  const [highlighted, setHighlighted] = useState(-1);
+  const [hasFocus, setHasFocus] = useState(false);
+  const [recent, addRecent] = useRecentScenarios(recentKey);
+  const idPrefix = useId();
+
   if (scenarios.length === 0) {
     return null;
   }
 
+  const results = query.trim() ? searchScenarios(scenarios, query) : null;
+  const recentScenarios = recent
+    .map(name => scenarios.find(scenario => scenario.name === name))
+    .filter((scenario): scenario is Scenario => scenario !== undefined);
+
+  const sections = results
+    ? [{ label: `${results.length} match${results.length === 1 ? '' : 'es'}`, scenarios: results }]
+    : [
+        ...(recentScenarios.length > 0 ? [{ label: 'Recent', scenarios: recentScenarios }] : []),
+        ...groupScenarios(scenarios).map(({ group, scenarios: items }) => ({
+          label: group || (recentScenarios.length > 0 || items.length < scenarios.length ? 'Scenarios' : ''),
+          scenarios: items,
+        })),
+      ];
+  const listed = sections.flatMap(section => section.scenarios);
+  // Position of each section's first scenario in the listed order
+  const sectionStarts = sections.map((_, i) => sections.slice(0, i).reduce((count, section) => count + section.scenarios.length, 0));
+
+  const select = (scenario: Scenario) => {
+    if (isLoading) return;
+    addRecent(scenario.name);
+    onSelectScenario(scenario);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const inSearch = e.target instanceof HTMLInputElement;
+    const move = (delta: number) => {
+      e.preventDefault();
+      setHighlighted(current => Math.min(listed.length - 1, Math.max(0, current + delta)));
+    };
+
+    if (e.key === 'ArrowDown' || (e.key === 'ArrowRight' && !inSearch)) {
+      move(1);
+    } else if (e.key === 'ArrowUp' || (e.key === 'ArrowLeft' && !inSearch)) {
+      move(-1);
+    } else if (e.key === 'Enter' && (highlighted >= 0 || results)) {
+      e.preventDefault();
+      const scenario = listed[Math.max(highlighted, 0)];
+      if (scenario) select(scenario);
+    } else if (e.key === 'Escape') {
+      setQuery('');
+      setHighlighted(-1);
+    } else if (!inSearch && /^[1-9]$/.test(e.key) && !e.metaKey && !e.ctrlKey && !e.altKey) {
+      const scenario = listed[Number(e.key) - 1];
+      if (scenario) {
+        e.preventDefault();
+        select(scenario);
+      }
+    }
+  };
+
   return (
-    <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
-      <span
-        style={{
-          fontSize: '0.75rem',
-          color: 'var(--ai-color-text-tertiary)',
-          fontWeight: '500',
-          marginRight: '4px',
-        }}
-      >
-        Scenario:
-      </span>
-      {scenarios.map((scenario, index) => {
-        const isSelected = selectedScenario === scenario.name;
-        const hasDelay = (scenario.delay ?? 0) > 0;
-
-        return (
-          <button
-            key={`${scenario.name}-${index}`}
-            onClick={() => onSelectScenario(scenario)}
-            disabled={isLoading}
-            title={scenario.description || scenario.name}
-            style={{
-              border: 'none',
-              background: 'none',
-              padding: 0,
-              cursor: isLoading ? 'not-allowed' : 'pointer',
-              opacity: isLoading ? 0.5 : 1,
-            }}
+    <div
+      onKeyDown={handleKeyDown}
+      onFocus={() => setHasFocus(true)}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+          setHasFocus(false);
+          setHighlighted(-1);
+        }
+      }}
+      style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}
+    >
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+        <label
+          htmlFor={`${idPrefix}-search`}
+          style={{
+            fontSize: '0.75rem',
+            color: 'var(--ai-color-text-tertiary)',
+            fontWeight: '500',
+            marginRight: '4px',
+          }}
+        >
+          Scenario:
+        </label>
+        <input
+          id={`${idPrefix}-search`}
+          type="search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setHighlighted(e.target.value.trim() ? 0 : -1);
+          }}
+          placeholder={`Search ${scenarios.length} scenarios… (↑↓ Enter, 1-9)`}
+          role="combobox"
+          aria-expanded={true}
+          aria-controls={`${idPrefix}-list`}
+          aria-activedescendant={highlighted >= 0 ? `${idPrefix}-${highlighted}` : undefined}
+          style={{
+            flex: '0 1 280px',
+            fontSize: '0.75rem',
+            padding: '4px 8px',
+            borderRadius: '6px',
+            border: '1px solid var(--ai-color-border-default)',
+            background: 'var(--ai-color-bg-primary)',
+            color: 'var(--ai-color-text-primary)',
+          }}
+        />
+      </div>
+
+      <div id={`${idPrefix}-list`} role="listbox" style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+        {sections.map((section, sectionIndex) => (
+          <div
+            key={`${sectionIndex}-${section.label}`}
+            style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}
           >
-            <Badge
-              color={isSelected ? 'primary' : 'secondary'}
-              variant={isSelected ? 'solid' : 'outline'}
-            >
-              {isLoading && isSelected && hasDelay ? '⏳ ' : ''}
-              {scenario.name}
-            </Badge>
-          </button>
-        );
-      })}
+            {section.label && <span style={sectionLabelStyle}>{section.label}</span>}
+            {section.scenarios.map((scenario, scenarioIndex) => {
+              const position = sectionStarts[sectionIndex] + scenarioIndex;
+              const isSelected = selectedScenario === scenario.name;
+              const isHighlighted = highlighted === position;
+              const hasDelay = (scenario.delay ?? 0) > 0;
+
+              return (
+                <button
+                  key={`${section.label}-${scenario.name}-${position}`}
+                  id={`${idPrefix}-${position}`}
+                  role="option"
+                  aria-selected={isSelected}
+                  onClick={() => select(scenario)}
+                  onMouseEnter={() => hasFocus && setHighlighted(position)}
+                  disabled={isLoading}
+                  title={toTitle(scenario)}
+                  style={{
+                    border: 'none',
+                    background: 'none',
+                    padding: 0,
+                    borderRadius: '999px',
+                    boxShadow: isHighlighted ? '0 0 0 2px var(--ai-color-border-heavy)' : 'none',
+                    cursor: isLoading ? 'not-allowed' : 'pointer',
+                    opacity: isLoading ? 0.5 : 1,
+                  }}
+                >
+                  <Badge
+                    color={isSelected ? 'primary' : 'secondary'}
+                    variant={isSelected ? 'solid' : 'outline'}
+                  >
+                    {hasFocus && position < 9 && (
+                      <span style={{ opacity: 0.6, marginRight: '4px' }}>{position + 1}</span>
+                    )}
+                    {isLoading && isSelected && hasDelay ? '⏳ ' : ''}
+                    {scenario.name}
+                  </Badge>
+                </button>
+              );
+            })}
+          </div>
+        ))}
+        {results?.length === 0 && (
+          <span style={{ fontSize: '0.75rem', color: 'var(--ai-color-text-tertiary)' }}>
+            No scenarios match "{query}"
+          </span>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,131 @@
+/**
+ * WidgetGallery - Live thumbnails of every portal widget
+ * Each tile renders the widget's default scenario in an isolated page (see `tiles.tsx`).
+ */
+
+import { useState } from 'react';
+import { Badge } from '@ainativekit/ui';
+import { TileFrame, toTileKey, useTileErrors } from './tiles';
+import type { WidgetDefinition } from './types';
+
+/** Size the tile page is rendered at, before scaling */
+const TILE_VIEWPORT = { width: 768, height: 560 };
+const TILE_SCALE = 0.4;
+
+export interface WidgetGalleryProps {
+  widgets: WidgetDefinition[];
+
+  /** Name of the scenario each tile shows, if any */
+  getScenarioName: (widgetId: string) => string | undefined;
+
+  /** Callback when a tile is clicked */
+  onOpenWidget: (widgetId: string) => void;
+}
+
+export function WidgetGallery({ widgets, getScenarioName, onOpenWidget }: WidgetGalleryProps) {
+  const [errors, clearErrors] = useTileErrors();
+  // Bumped to reload every tile
+  const [generation, setGeneration] = useState(0);
+
+  const errorCount = Object.keys(errors).length;
+
+  return (
+    <div style={{ maxWidth: '1200px', margin: '0 auto', padding: '16px' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginBottom: '16px' }}>
+        <span style={{ fontSize: '0.875rem', color: 'var(--ai-color-text-secondary)' }}>
+          {widgets.length} widget{widgets.length === 1 ? '' : 's'}
+          {errorCount > 0 && ` · ${errorCount} with render errors`}
+        </span>
+        <button
+          onClick={() => {
+            clearErrors();
+            setGeneration(current => current + 1);
+          }}
+          title="Reload every tile"
+          style={{
+            padding: '4px 10px',
+            borderRadius: '6px',
+            border: '1px solid var(--ai-color-border-default)',
+            background: 'var(--ai-color-bg-primary)',
+            color: 'var(--ai-color-text-secondary)',
+            fontSize: '0.75rem',
+            cursor: 'pointer',
+          }}
+        >
+          ↻ Reload
+        </button>
+      </div>
+
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateColumns: `repeat(auto-fill, ${TILE_VIEWPORT.width * TILE_SCALE}px)`,
+          gap: '16px',
+        }}
+      >
+        {widgets.map(widget => {
+          const error = errors[toTileKey({ widgetId: widget.id })];
+          const scenarioName = getScenarioName(widget.id);
+
+          return (
+            <button
+              key={widget.id}
+              onClick={() => onOpenWidget(widget.id)}
+              title={error ? `Render error: ${error}` : `Open ${widget.name}`}
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                padding: 0,
+                textAlign: 'left',
+                background: 'var(--ai-color-bg-primary)',
+                border: `1px solid ${error ? 'var(--ai-color-state-error)' : 'var(--ai-color-border-default)'}`,
+                borderRadius: '12px',
+                overflow: 'hidden',
+                cursor: 'pointer',
+              }}
+            >
+              <TileFrame
+                key={generation}
+                tile={{ widgetId: widget.id }}
+                title={widget.name}
+                width={TILE_VIEWPORT.width}
+                height={TILE_VIEWPORT.height}
+                scale={TILE_SCALE}
+              />
+              <div style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                padding: '10px 12px',
+                borderTop: '1px solid var(--ai-color-border-light)',
+                width: '100%',
+                boxSizing: 'border-box',
+              }}>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ fontSize: '0.875rem', fontWeight: '600', color: 'var(--ai-color-text-primary)' }}>
+                    {widget.icon ? `${widget.icon} ` : ''}
+                    {widget.name}
+                  </div>
+                  <div style={{
+                    fontSize: '0.75rem',
+                    color: 'var(--ai-color-text-tertiary)',
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                  }}>
+                    {scenarioName ?? 'No scenario'}
+                  </div>
+                </div>
+                {error && (
+                  <Badge color="danger" variant="solid">
+                    Render error
+                  </Badge>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -3,17 +3,46 @@
  *
  * Provides:
  * - Widget switching (dropdown/tabs)
+ * - Gallery of live widget thumbnails
+ * - Scenario × theme × device matrix
  * - Scenario management
  * - Shared DevContainer controls
  * - Clean separation of dev and production code
+ *
+ * Widget and scenario selection are uncontrolled by default; pass
+ * `selectedWidgetId` / `selectedScenarioId` with their change callbacks to
+ * drive them from app routing or state.
  */
 
 import { useState, useEffect } from 'react';
 import { AppsSDKUIProvider } from '@ainativekit/ui';
 import { DevContainer } from '../components/DevContainer';
 import { ScenarioPicker } from './ScenarioPicker';
-import type { WidgetPortalProps } from './types';
+import { ScenarioFileActions } from './ScenarioFileActions';
+import { WidgetGallery } from './WidgetGallery';
+import { ScenarioMatrix } from './ScenarioMatrix';
+import type { MatrixCell } from './ScenarioMatrix';
+import { readTileSpec, TileErrorBoundary } from './tiles';
+import type { PortalView, WidgetPortalProps } from './types';
 import type { Scenario } from '../mock';
+import {
+  decodeScenarioLink,
+  encodeScenarioLink,
+  exportScenarios,
+  parseScenarioFile,
+  MAX_SCENARIO_LINK_LENGTH,
+  SCENARIO_LINK_PARAM,
+} from '../mock/scenarioFiles';
+import type { DataLoaderConfig, DeviceType, Theme } from '../types';
+import { downloadJson } from '../utils/download';
+
+// Resolve a scenario's data value or factory
+async function resolveScenarioData(scenario: Scenario) {
+  return typeof scenario.data === 'function' ? await scenario.data() : scenario.data;
+}
+
+// File name part for a scenario or widget name
+const toFileName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'scenario';
 
 export function WidgetPortal({
   widgets,
@@ -21,40 +50,161 @@ export function WidgetPortal({
   defaultWidget,
   theme: initialTheme = 'light',
   loadingDelay = 2000,
+  selectedWidgetId: controlledWidgetId,
+  onWidgetChange,
+  selectedScenarioId: controlledScenarioId,
+  onScenarioChange,
+  syncUrl = controlledWidgetId === undefined,
+  defaultView = 'widget',
 }: WidgetPortalProps) {
+  // Set when this page is a gallery or matrix tile - the portal then renders only that widget
+  const [tile] = useState(() => readTileSpec(window.location.href));
+  const [view, setView] = useState<PortalView>(defaultView);
+  // Theme and device of the matrix cell opened in the widget view
+  const [openedCell, setOpenedCell] = useState<{ theme: Theme; device: DeviceType } | null>(null);
+
   // Determine initial widget
-  const initialWidgetId = defaultWidget || widgets[0]?.id;
-  const [selectedWidgetId, setSelectedWidgetId] = useState<string>(initialWidgetId);
-  const [selectedScenario, setSelectedScenario] = useState<Scenario | null>(null);
+  const initialWidgetId = controlledWidgetId ?? (defaultWidget || widgets[0]?.id);
+  const [uncontrolledWidgetId, setUncontrolledWidgetId] = useState<string>(initialWidgetId);
+  const [uncontrolledScenarioId, setUncontrolledScenarioId] = useState<string | null>(null);
+  const selectedWidgetId = tile?.widgetId ?? controlledWidgetId ?? uncontrolledWidgetId;
+  const selectedScenarioId = controlledScenarioId !== undefined ? controlledScenarioId : uncontrolledScenarioId;
   const [isLoadingScenario, setIsLoadingScenario] = useState(false);
+  // Scenarios imported from files or share links, per widget, until reload
+  const [importedScenarios, setImportedScenarios] = useState<Record<string, Scenario[]>>({});
 
   // Get current widget
   const currentWidget = widgets.find(w => w.id === selectedWidgetId) || widgets[0];
 
-  // Merge scenarios: widget-specific + default scenarios
-  const allScenarios = [
-    ...(currentWidget?.scenarios?.scenarios || []),
+  // Merge scenarios: widget-specific + imported + default scenarios
+  const getWidgetScenarios = (widgetId: string): Scenario[] => [
+    ...(widgets.find(w => w.id === widgetId)?.scenarios?.scenarios || []),
+    ...(importedScenarios[widgetId] || []),
     ...(defaultScenarios?.scenarios || []),
   ];
+  const allScenarios = getWidgetScenarios(currentWidget?.id ?? selectedWidgetId);
+  // Tiles load the portal page afresh, so they only know the scenarios in the bundle
+  const bundledScenarios = allScenarios.filter(
+    scenario => !importedScenarios[currentWidget?.id ?? selectedWidgetId]?.includes(scenario)
+  );
+  const selectedScenario = allScenarios.find(scenario => scenario.name === selectedScenarioId) ?? null;
+  // Ungrouped default scenarios get their own section in the picker
+  const pickerScenarios = allScenarios.map(scenario => (
+    !scenario.group && defaultScenarios?.scenarios.includes(scenario) ? { ...scenario, group: 'Common' } : scenario
+  ));
+
+  // The collection's `defaultScenario`, or the first scenario offered for the widget
+  const getDefaultScenario = (widgetId: string): Scenario | null => {
+    const scenarios = getWidgetScenarios(widgetId);
+    const defaultName = widgets.find(w => w.id === widgetId)?.scenarios?.defaultScenario;
+    return scenarios.find(scenario => scenario.name === defaultName) ?? scenarios[0] ?? null;
+  };
+
+  const selectWidget = (widgetId: string) => {
+    if (controlledWidgetId === undefined) setUncontrolledWidgetId(widgetId);
+    onWidgetChange?.(widgetId);
+  };
+
+  const selectScenario = (scenarioId: string | null, widgetId = selectedWidgetId) => {
+    if (controlledScenarioId === undefined) setUncontrolledScenarioId(scenarioId);
+    onScenarioChange?.(scenarioId, widgetId);
+  };
 
   // Update URL when widget changes (for browser history/refresh support)
   useEffect(() => {
-    if (selectedWidgetId) {
+    if (syncUrl && selectedWidgetId) {
       const url = new URL(window.location.href);
       url.searchParams.set('widget', selectedWidgetId);
       window.history.replaceState({}, '', url);
     }
-  }, [selectedWidgetId]);
+  }, [selectedWidgetId, syncUrl]);
+
+  // Add imported scenarios to a widget and select the first one
+  // Names already taken by the widget's scenarios get a numeric suffix.
+  const addScenarios = (widgetId: string, scenarios: Scenario[]) => {
+    const taken = new Set(getWidgetScenarios(widgetId).map(scenario => scenario.name));
+    const renamed = scenarios.map(scenario => {
+      let name = scenario.name;
+      for (let copy = 2; taken.has(name); copy++) {
+        name = `${scenario.name} (${copy})`;
+      }
+      taken.add(name);
+      return { ...scenario, name };
+    });
+
+    console.log('📥 [WidgetPortal] Imported scenarios:', renamed.map(scenario => scenario.name));
+    setImportedScenarios(imported => ({
+      ...imported,
+      [widgetId]: [...(imported[widgetId] || []), ...renamed],
+    }));
+    selectWidget(widgetId);
+    selectScenario(renamed[0].name, widgetId);
+  };
 
-  // Read widget from URL on mount
+  // Read widget and shared scenario from URL on mount
   useEffect(() => {
     const url = new URL(window.location.href);
     const widgetFromUrl = url.searchParams.get('widget');
-    if (widgetFromUrl && widgets.some(w => w.id === widgetFromUrl)) {
-      setSelectedWidgetId(widgetFromUrl);
+    const validWidget = widgetFromUrl && widgets.some(w => w.id === widgetFromUrl) ? widgetFromUrl : null;
+    if (syncUrl && validWidget) {
+      selectWidget(validWidget);
+    }
+
+    const sharedScenario = url.searchParams.get(SCENARIO_LINK_PARAM);
+    if (sharedScenario) {
+      // The scenario is kept for the session only
+      url.searchParams.delete(SCENARIO_LINK_PARAM);
+      window.history.replaceState({}, '', url);
+      decodeScenarioLink(sharedScenario).then(
+        scenario => addScenarios(validWidget ?? selectedWidgetId, [scenario]),
+        error => console.error('❌ [WidgetPortal] Could not open shared scenario:', error)
+      );
     }
   }, []);
 
+  // Import exported scenario files - into the widget they were exported from, if present
+  const handleImportScenarios = async (files: File[]) => {
+    for (const file of files) {
+      try {
+        const scenarioFile = parseScenarioFile(JSON.parse(await file.text()));
+        const widgetId = scenarioFile.widget && widgets.some(w => w.id === scenarioFile.widget)
+          ? scenarioFile.widget
+          : selectedWidgetId;
+        addScenarios(widgetId, scenarioFile.scenarios);
+      } catch (error) {
+        console.error(`❌ [WidgetPortal] Could not import "${file.name}":`, error instanceof Error ? error.message : error);
+      }
+    }
+  };
+
+  const handleExportScenarios = async (scenarios: Scenario[], fileName: string) => {
+    try {
+      downloadJson(`${fileName}.json`, await exportScenarios(scenarios, selectedWidgetId));
+    } catch (error) {
+      console.error('❌ [WidgetPortal] Could not export scenarios:', error instanceof Error ? error.message : error);
+    }
+  };
+
+  // Copy a link that opens the portal with the current widget and scenario
+  const handleCopyScenarioLink = async (): Promise<string | null> => {
+    if (!selectedScenario) return 'Select a scenario first';
+    try {
+      const encoded = await encodeScenarioLink(selectedScenario);
+      if (encoded.length > MAX_SCENARIO_LINK_LENGTH) {
+        return 'Scenario too large for a link - export it instead';
+      }
+      const url = new URL(window.location.href);
+      url.searchParams.set('widget', selectedWidgetId);
+      url.searchParams.set(SCENARIO_LINK_PARAM, encoded);
+      await navigator.clipboard.writeText(url.href);
+      console.log('🔗 [WidgetPortal] Copied scenario link:', url.href);
+      return null;
+    } catch (error) {
+      console.error('❌ [WidgetPortal] Could not create scenario link:', error);
+      return error instanceof Error ? error.message : 'Could not copy link';
+    }
+  };
+
   // Data loader that uses selected scenario
   const dataLoader = async () => {
     if (!selectedScenario) {
@@ -64,17 +214,36 @@ export function WidgetPortal({
       };
     }
 
-    const data = typeof selectedScenario.data === 'function'
-      ? await selectedScenario.data()
-      : selectedScenario.data;
+    return resolveScenarioData(selectedScenario);
+  };
+
+  // Scenarios offered as answers in the DevContainer conversation pane
+  const followUpSources: Record<string, DataLoaderConfig> = Object.fromEntries(
+    allScenarios.map(scenario => [
+      scenario.name,
+      { load: () => resolveScenarioData(scenario), toolInput: scenario.toolInput },
+    ])
+  );
+
+  // Open a gallery tile's widget with the scenario it showed
+  const handleOpenFromGallery = (widgetId: string) => {
+    selectWidget(widgetId);
+    selectScenario(getDefaultScenario(widgetId)?.name ?? null, widgetId);
+    setOpenedCell(null);
+    setView('widget');
+  };
 
-    return data;
+  // Open a matrix cell in the widget view, with its theme and device
+  const handleOpenFromMatrix = ({ scenario, theme, device }: MatrixCell) => {
+    selectScenario(scenario);
+    setOpenedCell({ theme, device });
+    setView('widget');
   };
 
   // Handle scenario selection
   const handleSelectScenario = async (scenario: Scenario) => {
     console.log('🎬 [WidgetPortal] Scenario selected:', scenario.name);
-    setSelectedScenario(scenario);
+    selectScenario(scenario.name);
 
     const delay = scenario.delay ?? 0;
 
@@ -104,6 +273,30 @@ export function WidgetPortal({
 
   const WidgetComponent = currentWidget.component;
 
+  if (tile) {
+    const tileScenario = tile.scenario !== undefined
+      ? allScenarios.find(scenario => scenario.name === tile.scenario) ?? null
+      : getDefaultScenario(currentWidget.id);
+    return (
+      <AppsSDKUIProvider linkComponent="a">
+        <DevContainer
+          widgetId={currentWidget.id}
+          showDevTools={false}
+          dataLoader={() => (tileScenario ? resolveScenarioData(tileScenario) : null)}
+          toolInput={tileScenario?.toolInput}
+          loadingDelay={tileScenario?.delay ?? 0}
+          theme={tile.theme ?? initialTheme}
+          defaultDevice={tile.device}
+          autoLoad={tileScenario !== null}
+        >
+          <TileErrorBoundary tile={tile}>
+            <WidgetComponent />
+          </TileErrorBoundary>
+        </DevContainer>
+      </AppsSDKUIProvider>
+    );
+  }
+
   return (
     <AppsSDKUIProvider linkComponent="a">
       <div style={{ minHeight: '100vh', display: 'flex', flexDirection: 'column' }}>
@@ -155,87 +348,162 @@ export function WidgetPortal({
                 }}
               />
 
-              <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flex: 1 }}>
-                <label
-                  htmlFor="widget-select"
-                  style={{
-                    fontSize: '0.875rem',
-                    color: 'var(--ai-color-text-secondary)',
-                    fontWeight: '500',
-                  }}
-                >
-                  Widget:
-                </label>
-
-                <select
-                  id="widget-select"
-                  value={selectedWidgetId}
-                  onChange={(e) => setSelectedWidgetId(e.target.value)}
-                  style={{
-                    fontSize: '0.875rem',
-                    fontWeight: '500',
-                    backgroundColor: 'var(--ai-color-bg-primary)',
-                    color: 'var(--ai-color-text-primary)',
-                    border: '1px solid var(--ai-color-border-default)',
-                    borderRadius: '8px',
-                    padding: '8px 12px',
-                    cursor: 'pointer',
-                    minWidth: '240px',
-                  }}
-                >
-                  {widgets.map((widget) => (
-                    <option key={widget.id} value={widget.id}>
-                      {widget.icon ? `${widget.icon} ` : ''}
-                      {widget.name}
-                    </option>
-                  ))}
-                </select>
-
-                {currentWidget.description && (
-                  <span
+              {view === 'gallery' ? (
+                <div style={{ flex: 1 }} />
+              ) : (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flex: 1 }}>
+                  <label
+                    htmlFor="widget-select"
+                    style={{
+                      fontSize: '0.875rem',
+                      color: 'var(--ai-color-text-secondary)',
+                      fontWeight: '500',
+                    }}
+                  >
+                    Widget:
+                  </label>
+
+                  <select
+                    id="widget-select"
+                    value={selectedWidgetId}
+                    onChange={(e) => selectWidget(e.target.value)}
                     style={{
                       fontSize: '0.875rem',
-                      color: 'var(--ai-color-text-tertiary)',
-                      fontStyle: 'italic',
+                      fontWeight: '500',
+                      backgroundColor: 'var(--ai-color-bg-primary)',
+                      color: 'var(--ai-color-text-primary)',
+                      border: '1px solid var(--ai-color-border-default)',
+                      borderRadius: '8px',
+                      padding: '8px 12px',
+                      cursor: 'pointer',
+                      minWidth: '240px',
                     }}
                   >
-                    {currentWidget.description}
-                  </span>
-                )}
+                    {widgets.map((widget) => (
+                      <option key={widget.id} value={widget.id}>
+                        {widget.icon ? `${widget.icon} ` : ''}
+                        {widget.name}
+                      </option>
+                    ))}
+                  </select>
+
+                  {currentWidget.description && (
+                    <span
+                      style={{
+                        fontSize: '0.875rem',
+                        color: 'var(--ai-color-text-tertiary)',
+                        fontStyle: 'italic',
+                      }}
+                    >
+                      {currentWidget.description}
+                    </span>
+                  )}
+                </div>
+              )}
+
+              {/* View switcher */}
+              <div style={{ display: 'flex', gap: '4px' }}>
+                {([
+                  ['widget', '▢ Widget', 'Full DevContainer view of one widget'],
+                  ['matrix', '▤ Matrix', 'This widget for every scenario, theme and device'],
+                  ['gallery', '▦ Gallery', 'Live thumbnails of every widget'],
+                ] as const).map(([value, label, description]) => (
+                  <button
+                    key={value}
+                    onClick={() => setView(value)}
+                    title={description}
+                    style={{
+                      padding: '6px 12px',
+                      borderRadius: '6px',
+                      border: 'none',
+                      background: view === value ? 'var(--ai-color-bg-primary)' : 'transparent',
+                      color: view === value ? 'var(--ai-color-text-primary)' : 'var(--ai-color-text-secondary)',
+                      fontSize: '0.875rem',
+                      fontWeight: '500',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    {label}
+                  </button>
+                ))}
               </div>
             </div>
 
-            {/* Row 2: Scenario Picker */}
-            {allScenarios.length > 0 && (
+            {/* Row 2: Scenario Picker and file actions */}
+            {view === 'widget' && (
               <div
                 style={{
                   paddingTop: '12px',
                   borderTop: '1px solid var(--ai-color-border-light)',
+                  display: 'flex',
+                  alignItems: 'flex-start',
+                  gap: '16px',
                 }}
               >
-                <ScenarioPicker
-                  scenarios={allScenarios}
-                  selectedScenario={selectedScenario?.name || null}
-                  onSelectScenario={handleSelectScenario}
-                  isLoading={isLoadingScenario}
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <ScenarioPicker
+                    scenarios={pickerScenarios}
+                    selectedScenario={selectedScenario?.name || null}
+                    onSelectScenario={handleSelectScenario}
+                    isLoading={isLoadingScenario}
+                    recentKey={selectedWidgetId}
+                  />
+                </div>
+                <ScenarioFileActions
+                  hasSelection={selectedScenario !== null}
+                  hasScenarios={allScenarios.length > 0}
+                  onExportSelected={() => selectedScenario && handleExportScenarios(
+                    [selectedScenario],
+                    `${selectedWidgetId}-${toFileName(selectedScenario.name)}`
+                  )}
+                  onExportAll={() => handleExportScenarios(allScenarios, `${selectedWidgetId}-scenarios`)}
+                  onImport={handleImportScenarios}
+                  onCopyLink={handleCopyScenarioLink}
                 />
               </div>
             )}
           </div>
         </div>
 
-        {/* Widget Content with DevContainer - DevContainer has its own fixed toolbar */}
-        <div style={{ flex: 1 }}>
-          <DevContainer
-            dataLoader={dataLoader}
-            loadingDelay={selectedScenario?.delay ?? loadingDelay}
-            theme={initialTheme}
-            autoLoad={false}
-            key={`${selectedWidgetId}-${selectedScenario?.name || 'none'}`}
-          >
-            <WidgetComponent />
-          </DevContainer>
-        </div>
+        {view === 'gallery' && (
+          <div style={{ flex: 1 }}>
+            <WidgetGallery
+              widgets={widgets}
+              getScenarioName={widgetId => getDefaultScenario(widgetId)?.name}
+              onOpenWidget={handleOpenFromGallery}
+            />
+          </div>
+        )}
+
+        {view === 'matrix' && (
+          <div style={{ flex: 1 }}>
+            <ScenarioMatrix
+              key={currentWidget.id}
+              widget={currentWidget}
+              scenarios={bundledScenarios}
+              onOpenCell={handleOpenFromMatrix}
+            />
+          </div>
+        )}
+
+        {view === 'widget' && (
+          /* Widget Content with DevContainer - DevContainer has its own fixed toolbar */
+          <div style={{ flex: 1 }}>
+            <DevContainer
+              widgetId={currentWidget.id}
+              dataLoader={dataLoader}
+              toolInput={selectedScenario?.toolInput}
+              followUpSources={followUpSources}
+              loadingDelay={selectedScenario?.delay ?? loadingDelay}
+              theme={openedCell?.theme ?? initialTheme}
+              defaultDevice={openedCell?.device}
+              autoLoad={selectedScenario !== null}
+              key={`${selectedWidgetId}-${selectedScenario?.name || 'none'}-${openedCell?.theme}-${openedCell?.device}`}
+            >
+              <WidgetComponent />
+            </DevContainer>
+          </div>
+        )}
       </div>
     </AppsSDKUIProvider>
   );
@@ -4,5 +4,11 @@
 
 export { WidgetPortal } from './WidgetPortal';
 export { ScenarioPicker } from './ScenarioPicker';
-export type { WidgetDefinition, WidgetPortalProps } from './types';
+export { ScenarioFileActions } from './ScenarioFileActions';
+export { WidgetGallery } from './WidgetGallery';
+export { ScenarioMatrix } from './ScenarioMatrix';
+export type { PortalView, WidgetDefinition, WidgetPortalProps } from './types';
 export type { ScenarioPickerProps } from './ScenarioPicker';
+export type { ScenarioFileActionsProps } from './ScenarioFileActions';
+export type { WidgetGalleryProps } from './WidgetGallery';
+export type { MatrixCell, ScenarioMatrixProps } from './ScenarioMatrix';
@@ -0,0 +1,87 @@
+/**
+ * Scenario search and grouping for the ScenarioPicker
+ */
+
+import type { Scenario } from '../mock';
+
+/**
+ * Score how well a query fuzzily matches a text
+ * Substrings score highest, earlier ones higher; otherwise the query's
+ * characters must appear in order, with consecutive and word-start matches
+ * scoring more.
+ *
+ * @returns The score, or `null` when the text doesn't match
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase();
+  const haystack = text.toLowerCase();
+  if (!needle) return 0;
+
+  const index = haystack.indexOf(needle);
+  if (index !== -1) {
+    return 100 + needle.length * 10 - Math.min(index, 50);
+  }
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of needle) {
+    const found = haystack.indexOf(char, from);
+    if (found === -1) return null;
+    score += found === previous + 1 ? 5 : 1;
+    if (found === 0 || /[\s\-_/:(.]/.test(haystack[found - 1])) score += 3;
+    previous = found;
+    from = found + 1;
+  }
+  return score;
+}
+
+// Best score of one search term across a scenario's name, group, tags and description
+function scoreTerm(term: string, scenario: Scenario): number | null {
+  const tagScores = (scenario.tags ?? []).map(tag => fuzzyScore(term.replace(/^#/, ''), tag));
+  const nameScore = fuzzyScore(term, scenario.name);
+  const scores = (term.startsWith('#') ? tagScores : [
+    // Matches on the name count double
+    nameScore === null ? null : nameScore * 2,
+    scenario.group ? fuzzyScore(term, scenario.group) : null,
+    ...tagScores,
+    scenario.description ? fuzzyScore(term, scenario.description) : null,
+  ]).filter((score): score is number => score !== null);
+  return scores.length > 0 ? Math.max(...scores) : null;
+}
+
+/**
+ * Scenarios matching every whitespace-separated term of a query, best first
+ * Terms starting with `#` match tags; a bare `#` matches everything.
+ */
+export function searchScenarios(scenarios: Scenario[], query: string): Scenario[] {
+  const terms = query.trim().split(/\s+/).filter(term => term.replace(/^#/, ''));
+  if (terms.length === 0) return scenarios;
+
+  return scenarios
+    .map(scenario => {
+      let total = 0;
+      for (const term of terms) {
+        const score = scoreTerm(term, scenario);
+        if (score === null) return null;
+        total += score;
+      }
+      return { scenario, score: total };
+    })
+    .filter((match): match is { scenario: Scenario; score: number } => match !== null)
+    .sort((a, b) => b.score - a.score)
+    .map(match => match.scenario);
+}
+
+/**
+ * Group scenarios by `group`, in order of first appearance
+ * Ungrouped scenarios come first, under an empty group name.
+ */
+export function groupScenarios(scenarios: Scenario[]): { group: string; scenarios: Scenario[] }[] {
+  const groups = new Map<string, Scenario[]>([['', []]]);
+  for (const scenario of scenarios) {
+    const group = scenario.group ?? '';
+    groups.set(group, [...(groups.get(group) ?? []), scenario]);
+  }
+  return [...groups].map(([group, items]) => ({ group, scenarios: items })).filter(group => group.scenarios.length > 0);
+}
@@ -0,0 +1,158 @@
+/**
+ * Portal tiles - isolated live renders of a widget
+ *
+ * Widgets read the global `window.openai`, so every tile is an iframe of the
+ * portal page itself. The tile URL parameters tell the portal to render just
+ * one widget, scenario, theme and device, without the dev toolbar. Tiles
+ * report render errors back to the embedding page with `postMessage`.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import type { DeviceType, Theme } from '../types';
+
+/** URL parameter that makes the portal render a single widget as a tile */
+export const TILE_PARAM = 'tile';
+
+const TILE_SCENARIO_PARAM = 'tileScenario';
+const TILE_THEME_PARAM = 'tileTheme';
+const TILE_DEVICE_PARAM = 'tileDevice';
+const TILE_ERROR_MESSAGE = 'ainativekit-devtools:tile-error';
+
+/**
+ * What a tile renders
+ * Unset fields use the widget's default scenario, the portal theme and the desktop device.
+ */
+export interface TileSpec {
+  widgetId: string;
+  /** Scenario name */
+  scenario?: string;
+  theme?: Theme;
+  device?: DeviceType;
+}
+
+/** Identifies a tile in error reports */
+export const toTileKey = (tile: TileSpec) =>
+  JSON.stringify([tile.widgetId, tile.scenario ?? null, tile.theme ?? null, tile.device ?? null]);
+
+/** URL of the portal page rendering a tile */
+export function toTileUrl(tile: TileSpec): string {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(TILE_PARAM, tile.widgetId);
+  if (tile.scenario !== undefined) url.searchParams.set(TILE_SCENARIO_PARAM, tile.scenario);
+  if (tile.theme) url.searchParams.set(TILE_THEME_PARAM, tile.theme);
+  if (tile.device) url.searchParams.set(TILE_DEVICE_PARAM, tile.device);
+  return url.href;
+}
+
+/** Read the tile a portal page should render, or `null` for the full portal */
+export function readTileSpec(href: string): TileSpec | null {
+  const params = new URL(href).searchParams;
+  const widgetId = params.get(TILE_PARAM);
+  if (!widgetId) return null;
+
+  const scenario = params.get(TILE_SCENARIO_PARAM);
+  const theme = params.get(TILE_THEME_PARAM);
+  const device = params.get(TILE_DEVICE_PARAM);
+  return {
+    widgetId,
+    ...(scenario !== null ? { scenario } : {}),
+    ...(theme === 'light' || theme === 'dark' ? { theme } : {}),
+    ...(device === 'desktop' || device === 'tablet' || device === 'mobile' ? { device } : {}),
+  };
+}
+
+/**
+ * Error boundary for a tile
+ * Reports render errors to the embedding page before the DevContainer boundary shows them.
+ */
+export class TileErrorBoundary extends React.Component<
+  { tile: TileSpec; children: React.ReactNode },
+  { error?: Error }
+> {
+  state: { error?: Error } = {};
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  componentDidCatch(error: Error) {
+    console.error(`🚨 [WidgetPortal] Widget "${this.props.tile.widgetId}" crashed:`, error);
+    window.parent.postMessage(
+      { type: TILE_ERROR_MESSAGE, key: toTileKey(this.props.tile), message: error.message },
+      window.location.origin
+    );
+  }
+
+  render() {
+    if (this.state.error) {
+      return (
+        <div style={{ padding: '20px', color: 'var(--ai-color-state-error)', fontFamily: 'monospace' }}>
+          <strong>⚠️ Widget Error</strong>
+          <p style={{ margin: '10px 0' }}>{this.state.error.message}</p>
+        </div>
+      );
+    }
+    return this.props.children;
+  }
+}
+
+/**
+ * Render errors reported by tiles on this page, by tile key
+ * @returns The errors and a function that clears them
+ */
+export function useTileErrors() {
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin !== window.location.origin || event.data?.type !== TILE_ERROR_MESSAGE) return;
+      setErrors(current => ({ ...current, [event.data.key]: event.data.message }));
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  const clearErrors = useCallback(() => setErrors({}), []);
+  return [errors, clearErrors] as const;
+}
+
+export interface TileFrameProps {
+  tile: TileSpec;
+  title: string;
+  /** Size the tile page is rendered at, before scaling */
+  width: number;
+  height: number;
+  scale: number;
+}
+
+/**
+ * A tile page, rendered at full size and scaled down
+ * Pointer events go to the element around it.
+ */
+export function TileFrame({ tile, title, width, height, scale }: TileFrameProps) {
+  return (
+    <div style={{
+      width: `${width * scale}px`,
+      height: `${height * scale}px`,
+      overflow: 'hidden',
+      background: 'var(--ai-color-bg-secondary)',
+    }}>
+      <iframe
+        src={toTileUrl(tile)}
+        title={title}
+        loading="lazy"
+        tabIndex={-1}
+        style={{
+          width: `${width}px`,
+          height: `${height}px`,
+          border: 'none',
+          transform: `scale(${scale})`,
+          transformOrigin: 'top left',
+          pointerEvents: 'none',
+        }}
+      />
+    </div>
+  );
+}
@@ -28,6 +28,12 @@ export interface WidgetDefinition {
   scenarios?: ScenarioCollection;
 }
 
+/**
+ * Portal view - one widget in a DevContainer, one widget for every scenario,
+ * theme and device, or live thumbnails of every widget
+ */
+export type PortalView = 'widget' | 'matrix' | 'gallery';
+
 /**
  * Props for WidgetPortal component
  */
@@ -41,9 +47,39 @@ export interface WidgetPortalProps {
   /** Initial widget to display (defaults to first widget) */
   defaultWidget?: string;
 
+  /**
+   * Selected widget ID - makes the widget selection controlled
+   * Update it from `onWidgetChange`.
+   */
+  selectedWidgetId?: string;
+
+  /** Called when the user (or an import or share link) selects a widget */
+  onWidgetChange?: (widgetId: string) => void;
+
+  /**
+   * Selected scenario name, or `null` for none - makes the scenario selection controlled
+   * Update it from `onScenarioChange`.
+   */
+  selectedScenarioId?: string | null;
+
+  /** Called when a scenario is selected */
+  onScenarioChange?: (scenarioId: string | null, widgetId: string) => void;
+
+  /**
+   * Read the widget from the `widget` URL parameter on mount and keep it updated
+   * Defaults to `true`, or `false` when `selectedWidgetId` is controlled.
+   */
+  syncUrl?: boolean;
+
   /** Initial theme */
   theme?: 'light' | 'dark';
 
   /** Loading delay for delayed scenario loading */
   loadingDelay?: number;
+
+  /**
+   * Initial view
+   * @default 'widget'
+   */
+  defaultView?: PortalView;
 }
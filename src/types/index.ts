@@ -2,7 +2,169 @@
  * @ainativekit/devtools - Type definitions
  */
 
-import type { Theme } from '@ainativekit/ui';
+import type { Theme, OpenAiGlobals, DisplayMode } from '@ainativekit/ui';
+import type { MockData } from '../utils/createMockData';
+
+/**
+ * Context passed to tool handlers alongside the tool arguments
+ */
+export interface ToolHandlerContext {
+  /** Snapshot of the current `window.openai` globals */
+  globals: Partial<OpenAiGlobals>;
+  /**
+   * Push new globals to the widget through the same path DevContainer uses
+   * for tool results (updates `window.openai` and dispatches `SetGlobalsEvent`)
+   */
+  setGlobals: (globals: Partial<OpenAiGlobals>) => void;
+}
+
+/**
+ * Function that produces the result of a mocked `callTool` invocation
+ */
+export type ToolHandlerFn = (
+  args: Record<string, unknown>,
+  context: ToolHandlerContext
+) => Promise<any> | any;
+
+/**
+ * Tool handler with simulation options
+ */
+export interface ToolHandlerConfig {
+  /** Function that produces the tool result */
+  handler: ToolHandlerFn;
+  /**
+   * Simulated latency in milliseconds before the handler runs
+   * @default 0
+   */
+  latency?: number;
+  /**
+   * Force the call to fail. Pass a string to use it as the error message.
+   * @default false
+   */
+  fail?: boolean | string;
+  /**
+   * Push the handler result to the widget as the new `toolOutput`
+   * @default false
+   */
+  updateToolOutput?: boolean;
+}
+
+/**
+ * Tool handler - either a plain function or a config object
+ */
+export type ToolHandler = ToolHandlerFn | ToolHandlerConfig;
+
+/**
+ * Map of tool names to handlers used by the mocked `window.openai.callTool`
+ */
+export type ToolHandlers = Record<string, ToolHandler>;
+
+/**
+ * Tool input simulated as `window.openai.toolInput` - the arguments the model
+ * passed to the tool. Either a value or a (sync or async) factory.
+ */
+export type ToolInputSource =
+  | Record<string, unknown>
+  | (() => Record<string, unknown> | Promise<Record<string, unknown>>);
+
+/**
+ * MCP content block - the model-facing part of a tool result
+ */
+export interface ToolContentBlock {
+  type: string;
+  [key: string]: unknown;
+}
+
+/**
+ * MCP-style tool result, routed to the matching globals:
+ * `structuredContent` becomes `window.openai.toolOutput` and `_meta` becomes
+ * `window.openai.toolResponseMetadata`. `content` is only read by the model,
+ * so it is logged but not exposed to the widget.
+ */
+export interface ToolResult<TOutput = unknown, TMeta = Record<string, unknown>> {
+  /** Structured data for the widget (`toolOutput`) */
+  structuredContent?: TOutput;
+  /** Widget-only metadata (`toolResponseMetadata`) */
+  _meta?: TMeta;
+  /** Model-facing content blocks */
+  content?: ToolContentBlock[];
+  /** Marks a failed tool call */
+  isError?: boolean;
+}
+
+/**
+ * Payload published for an error state - plain error data, an MCP result with
+ * `isError: true`, or a function building either from the error that caused it
+ * (`error` is set for data loader failures)
+ */
+export type ErrorFixture = object | ((error?: Error) => object);
+
+/**
+ * Named error fixtures
+ */
+export type ErrorFixtures = Record<string, ErrorFixture>;
+
+/**
+ * A step of a tool output timeline, applied `at` milliseconds after the timeline starts
+ * Omitted globals keep their previous value.
+ */
+export interface TimelineStep {
+  /** Time offset in milliseconds */
+  at: number;
+  /** `toolOutput` published by this step */
+  toolOutput?: unknown;
+  /** `toolResponseMetadata` published by this step */
+  toolResponseMetadata?: unknown;
+}
+
+/**
+ * Tool output delivered in stages (partial results, enrichment, final metadata)
+ * An array of timed steps, or an async iterable whose values (plain data or
+ * `ToolResult`s) are applied as they are yielded.
+ */
+export type Timeline = TimelineStep[] | AsyncIterable<unknown>;
+
+/**
+ * Context passed to data loaders
+ */
+export interface DataLoaderContext {
+  /** Aborted when a newer load replaces this one (widget, data source or state change) */
+  signal: AbortSignal;
+}
+
+/**
+ * Function that loads mock tool output
+ * Return plain data (used for both `toolOutput` and `toolResponseMetadata`)
+ * or a `ToolResult` to set them separately.
+ * Return a `Timeline` to stream the output in stages.
+ */
+export type DataLoaderFn = (context?: DataLoaderContext) => Promise<any> | any;
+
+/**
+ * Data loader with extra simulation options
+ */
+export interface DataLoaderConfig {
+  /** Function that loads the tool output */
+  load: DataLoaderFn;
+  /** Tool input that produced this output */
+  toolInput?: ToolInputSource;
+}
+
+/**
+ * Data loader - a plain function, a config object, or `createMockData()` output
+ * Mock data adds one data source per edge-case variant and provides the empty state.
+ * @example
+ * ```typescript
+ * dataLoaders: {
+ *   sunny: () => sunnyForecast,
+ *   rainy: { load: () => rainyForecast, toolInput: { city: 'London' } },
+ *   withMeta: () => ({ structuredContent: sunnyForecast, _meta: { units: 'metric' } }),
+ *   forecast: createMockData(sunnyForecast),
+ *   streamed: () => [{ at: 0, toolOutput: partialForecast }, { at: 800, toolOutput: sunnyForecast }]
+ * }
+ * ```
+ */
+export type DataLoader = DataLoaderFn | DataLoaderConfig | MockData<unknown>;
 
 /**
  * Widget configuration for multi-widget development
@@ -15,23 +177,40 @@ export interface Widget {
   /** The widget component */
   component: React.ComponentType;
   /** Widget-specific data loader (optional) - single loader, hides dropdown */
-  dataLoader?: () => Promise<any> | any;
+  dataLoader?: DataLoader;
   /** Widget-specific empty data loader (optional) */
-  emptyDataLoader?: () => Promise<any> | any;
+  emptyDataLoader?: DataLoader;
   /**
    * Widget-specific data loaders (optional) - multiple loaders with dropdown
    * When provided, only these data sources appear in the dropdown for this widget
    */
-  dataLoaders?: Record<string, () => Promise<any> | any>;
+  dataLoaders?: Record<string, DataLoader>;
   /**
    * Widget-specific empty data loaders (optional)
    * Should match keys in dataLoaders
    */
-  emptyDataLoaders?: Record<string, () => Promise<any> | any>;
+  emptyDataLoaders?: Record<string, DataLoader>;
   /**
    * Default data loader key for this widget
    */
   defaultDataLoader?: string;
+  /**
+   * Tool input for this widget (optional)
+   * Used when the active data loader doesn't declare its own `toolInput`
+   */
+  toolInput?: ToolInputSource;
+  /**
+   * Widget-specific tool handlers (optional)
+   * Merged over the global `toolHandlers`, widget entries win
+   */
+  toolHandlers?: ToolHandlers;
+  /**
+   * Widget-specific error fixtures (optional)
+   * Merged over the global `errorFixtures`, widget entries win
+   */
+  errorFixtures?: ErrorFixtures;
+  /** Error fixture used by the Error button and for data loader failures (optional) */
+  defaultErrorFixture?: string;
 }
 
 /**
@@ -53,12 +232,18 @@ export interface DevContainerProps {
    * dataLoader: () => ({ type: 'data', items: [...] })
    * ```
    */
-  dataLoader?: () => Promise<any> | any;
+  dataLoader?: DataLoader;
 
   /**
    * Empty state data loader for single widget mode
    */
-  emptyDataLoader?: () => Promise<any> | any;
+  emptyDataLoader?: DataLoader;
+
+  /**
+   * ID of the single widget, used to keep its persisted `widgetState` apart from other widgets
+   * @default 'default'
+   */
+  widgetId?: string;
 
   // Multi-widget mode
   /**
@@ -85,12 +270,12 @@ export interface DevContainerProps {
    * }
    * ```
    */
-  dataLoaders?: Record<string, () => Promise<any> | any>;
+  dataLoaders?: Record<string, DataLoader>;
 
   /**
    * Map of empty data loaders for multi-widget mode
    */
-  emptyDataLoaders?: Record<string, () => Promise<any> | any>;
+  emptyDataLoaders?: Record<string, DataLoader>;
 
   /**
    * Default data loader key to use
@@ -102,24 +287,131 @@ export interface DevContainerProps {
    */
   defaultWidget?: string;
 
+  /**
+   * Tool input exposed as `window.openai.toolInput`
+   * Used when neither the active data loader nor the widget declares one
+   * @example
+   * ```typescript
+   * toolInput: { query: 'pizza', city: 'San Francisco' }
+   * ```
+   */
+  toolInput?: ToolInputSource;
+
+  /**
+   * Data sources offered when answering follow-up messages in the conversation pane
+   * Defaults to the active widget's data loaders
+   */
+  followUpSources?: Record<string, DataLoader>;
+
+  /**
+   * Interception of `window.openai.openExternal`
+   * @default { mode: 'confirm' }
+   * @example
+   * ```typescript
+   * openExternal: { mode: 'confirm', allowedDomains: ['example.com', 'maps.google.com'] }
+   * ```
+   */
+  openExternal?: OpenExternalConfig;
+
+  /**
+   * Custom device profiles shown in the device switcher next to the built-ins, keyed by id
+   * @example
+   * ```typescript
+   * deviceProfiles: {
+   *   'touch-laptop': { name: 'Touch laptop', width: 768, type: 'desktop', capabilities: { hover: true, touch: true } },
+   *   'notched-phone': { name: 'Notched phone', width: 390, height: 844, type: 'mobile', safeArea: { top: 47, bottom: 34 } }
+   * }
+   * ```
+   */
+  deviceProfiles?: Record<string, DeviceProfile>;
+
+  /**
+   * Initially selected device - a built-in (`'desktop' | 'tablet' | 'mobile'`) or a `deviceProfiles` key
+   * @default 'desktop'
+   */
+  defaultDevice?: string;
+
+  /**
+   * Handlers for `window.openai.callTool`, keyed by tool name
+   * Calls to tools without a handler reject with an "Unknown tool" error.
+   * When omitted, every call resolves with a generic mock response.
+   * @example
+   * ```typescript
+   * toolHandlers: {
+   *   refresh: async (args, { globals }) => ({ ...globals.toolOutput, updatedAt: Date.now() }),
+   *   book: { handler: () => ({ ok: true }), latency: 1500 },
+   *   pay: { handler: () => null, fail: 'Card declined' }
+   * }
+   * ```
+   */
+  toolHandlers?: ToolHandlers;
+
+  /**
+   * Named error fixtures offered in the Error menu, merged over the built-in `ERROR_FIXTURES`
+   * @example
+   * ```typescript
+   * errorFixtures: {
+   *   quotaExceeded: { error: 'QUOTA_EXCEEDED', message: 'Monthly quota reached', resetsAt: '2026-02-01' },
+   *   upstream: (error) => ({ error: 'UPSTREAM', detail: error?.message ?? 'Bad gateway' })
+   * }
+   * ```
+   */
+  errorFixtures?: ErrorFixtures;
+
+  /**
+   * Error fixture used by the Error button and for data loader failures
+   * @default 'toolError'
+   */
+  defaultErrorFixture?: string;
+
   // Common props
   /**
    * Delay in milliseconds before loading data (simulates network latency)
+   * Used by the `default` network profile.
    * @default 2000
    */
   loadingDelay?: number;
 
+  /**
+   * Custom network profiles shown in the network picker next to the built-ins, keyed by id
+   * @example
+   * ```typescript
+   * networkProfiles: {
+   *   satellite: { label: 'Satellite', latency: [600, 1200], failureRate: 0.1 }
+   * }
+   * ```
+   */
+  networkProfiles?: Record<string, NetworkProfile>;
+
+  /**
+   * Network profile selected on mount (`default`, a built-in id or a custom profile id)
+   * @default 'default'
+   */
+  defaultNetworkProfile?: string;
+
   /**
    * Initial theme
    * @default 'light'
    */
   theme?: Theme;
 
+  /**
+   * Initial locale (BCP 47), exposed as `window.openai.locale`
+   * @default 'en-US'
+   */
+  locale?: string;
+
   /**
    * Auto-load data on mount
    * @default true
    */
   autoLoad?: boolean;
+
+  /**
+   * Show the dev toolbar - turn off to render only the widget, as in portal gallery tiles
+   * @default true
+   */
+  showDevTools?: boolean;
 }
 
 /**
@@ -127,6 +419,40 @@ export interface DevContainerProps {
  */
 export type DeviceType = 'desktop' | 'tablet' | 'mobile';
 
+/**
+ * Safe area insets (px) exposed as `window.openai.safeArea.insets`
+ */
+export type SafeAreaInsets = OpenAiGlobals['safeArea']['insets'];
+
+/**
+ * Input capabilities exposed as `window.openai.userAgent.capabilities`
+ */
+export type DeviceCapabilities = OpenAiGlobals['userAgent']['capabilities'];
+
+/**
+ * Simulated device for the device switcher
+ */
+export interface DeviceProfile {
+  /** Display name in the device switcher */
+  name: string;
+  /** Viewport width (px) */
+  width: number;
+  /** Screen height (px) - used for fullscreen `maxHeight` instead of the window height */
+  height?: number;
+  /** Device type reported in `userAgent.device.type`; also drives host behavior (mobile coerces PiP to fullscreen) */
+  type: DeviceType;
+  /**
+   * Input capabilities
+   * @default { hover: type === 'desktop', touch: type !== 'desktop' }
+   */
+  capabilities?: Partial<DeviceCapabilities>;
+  /**
+   * Safe area insets, e.g. for notches and home indicators
+   * @default { top: 0, bottom: 0, left: 0, right: 0 }
+   */
+  safeArea?: Partial<SafeAreaInsets>;
+}
+
 /**
  * Debug mode options
  */
@@ -134,9 +460,175 @@ export type DebugMode = 'none' | 'border';
 
 /**
  * Widget state for testing
+ *
+ * This is the devtools' own state machine, not the Apps SDK widget state.
+ * It is exposed on `window.openaiDevtools.widgetState` and announced with
+ * a `DEVTOOLS_STATE_EVENT_TYPE` event, leaving `window.openai.widgetState`
+ * for the payload stored by `setWidgetState`.
  */
 export type WidgetState = 'loading' | 'data' | 'empty' | 'error';
 
+/**
+ * Event dispatched on `window` when the devtools widget state changes
+ * `event.detail` is `{ widgetState: WidgetState }`
+ */
+export const DEVTOOLS_STATE_EVENT_TYPE = 'openai-devtools:state';
+
+/**
+ * Devtools-only globals, kept separate from `window.openai`
+ */
+export interface DevtoolsGlobals {
+  /** Current devtools widget state */
+  widgetState: WidgetState;
+}
+
+declare global {
+  interface Window {
+    openaiDevtools?: DevtoolsGlobals;
+  }
+}
+
+/**
+ * `window.openai` bridge methods recorded by the call inspector
+ */
+export type BridgeMethod =
+  | 'callTool'
+  | 'sendFollowUpMessage'
+  | 'openExternal'
+  | 'setWidgetState'
+  | 'requestDisplayMode';
+
+/**
+ * A single recorded `window.openai` bridge call
+ */
+export interface BridgeCallEntry {
+  /** Sequential entry ID */
+  id: number;
+  /** Bridge method that was called */
+  method: BridgeMethod;
+  /** Arguments passed to the method */
+  args: unknown;
+  /** ID of the widget that was active when the call was made */
+  widgetId: string;
+  /** Call start time (epoch milliseconds) */
+  timestamp: number;
+  /** Call status */
+  status: 'pending' | 'resolved' | 'rejected';
+  /** Resolved value (when status is 'resolved') */
+  result?: unknown;
+  /** Error message (when status is 'rejected') */
+  error?: string;
+  /** Duration in milliseconds (once settled) */
+  duration?: number;
+}
+
+/**
+ * A turn in the simulated conversation
+ * User turns come from `sendFollowUpMessage`; assistant turns are the
+ * developer's answers, delivered to the widget as the next `toolOutput`.
+ */
+export interface ConversationTurn {
+  /** Sequential turn ID */
+  id: number;
+  /** Who produced the turn */
+  role: 'user' | 'assistant';
+  /** Follow-up prompt (user turns) */
+  prompt?: string;
+  /** Name of the data source used to answer (assistant turns) */
+  source?: string;
+  /** Tool output delivered to the widget (assistant turns) */
+  toolOutput?: unknown;
+  /** When the turn was added (epoch milliseconds) */
+  timestamp: number;
+}
+
+/**
+ * Devtools controls captured by session recordings
+ */
+export interface SessionControls {
+  /** Active widget ID */
+  widget: string;
+  /** Active data source */
+  dataSource: string;
+  /** Simulated widget state */
+  state: WidgetState;
+  theme: Theme;
+  /** Device profile ID */
+  device: string;
+  displayMode: DisplayMode;
+  locale: string;
+}
+
+/**
+ * An event in a recorded session, `t` milliseconds after recording started
+ */
+export type SessionEvent =
+  | { t: number; type: 'globals'; globals: Partial<OpenAiGlobals> }
+  | { t: number; type: 'control'; control: keyof SessionControls; value: unknown }
+  | { t: number; type: 'bridgeCall'; method: BridgeMethod; args: unknown; result?: unknown; error?: string };
+
+/**
+ * A recorded devtools session
+ * Every `setGlobals` dispatch, bridge call (with its mocked result) and control
+ * change, replayable with the same timing in `DevContainer`.
+ */
+export interface SessionRecording {
+  /** Recording format version */
+  version: 1;
+  /** When recording started (ISO 8601) */
+  recordedAt: string;
+  /** Recording length in milliseconds */
+  duration: number;
+  /** State when recording started */
+  initial: {
+    controls: SessionControls;
+    globals: Partial<OpenAiGlobals>;
+  };
+  /** Events ordered by time */
+  events: SessionEvent[];
+}
+
+/**
+ * What the mocked `openExternal` does with a link
+ * - `log`: record the attempt only
+ * - `confirm`: ask in a dialog before opening
+ * - `open`: open the link in a new tab
+ */
+export type OpenExternalMode = 'log' | 'confirm' | 'open';
+
+/**
+ * Interception settings for `window.openai.openExternal`
+ */
+export interface OpenExternalConfig {
+  /**
+   * What to do with allowed links
+   * @default 'confirm'
+   */
+  mode?: OpenExternalMode;
+  /**
+   * Domains links may point to, mirroring what you declare in production
+   * `'example.com'` also allows its subdomains. When omitted, any domain is allowed.
+   */
+  allowedDomains?: string[];
+}
+
+/**
+ * Outcome of an `openExternal` attempt
+ */
+export type OpenExternalOutcome = 'opened' | 'logged' | 'cancelled' | 'blocked' | 'invalid';
+
+/**
+ * Result recorded for every `openExternal` attempt
+ */
+export interface OpenExternalResult {
+  /** The requested link */
+  href: string;
+  /** What happened to it */
+  outcome: OpenExternalOutcome;
+  /** Why the link was blocked or rejected */
+  reason?: string;
+}
+
 /**
  * Viewport presets for device simulation
  * Aligned with OpenAI Apps SDK breakpoints:
@@ -148,6 +640,79 @@ export const VIEWPORT_PRESETS = {
   mobile: 380,
 } as const;
 
+/**
+ * Built-in device profiles, one per device type
+ */
+export const DEVICE_PROFILES: Record<DeviceType, DeviceProfile> = {
+  desktop: { name: 'Desktop', width: VIEWPORT_PRESETS.desktop, type: 'desktop' },
+  tablet: { name: 'Tablet', width: VIEWPORT_PRESETS.tablet, type: 'tablet' },
+  mobile: { name: 'Mobile', width: VIEWPORT_PRESETS.mobile, type: 'mobile' },
+};
+
+/**
+ * Simulated network conditions for data loads
+ */
+export interface NetworkProfile {
+  /** Label in the network picker */
+  label: string;
+  /** Response latency in milliseconds, or a `[min, max]` range picked at random per request */
+  latency: number | [number, number];
+  /** Fail requests that take longer than this many milliseconds */
+  timeout?: number;
+  /** Share of requests that fail, from 0 to 1 */
+  failureRate?: number;
+}
+
+/**
+ * Built-in network profiles
+ * The `default` profile (`loadingDelay`) is added by `DevContainer`.
+ */
+export const NETWORK_PROFILES: Record<string, NetworkProfile> = {
+  instant: { label: 'Instant', latency: 0 },
+  fast: { label: 'Fast', latency: 150 },
+  slow3g: { label: 'Slow 3G', latency: [1800, 2800] },
+  jittery: { label: 'Jittery', latency: [100, 4000] },
+  timeout: { label: 'Timeout (8s)', latency: Infinity, timeout: 8000 },
+  intermittent: { label: 'Intermittent failure', latency: [200, 800], failureRate: 0.5 },
+};
+
+/**
+ * Default `maxHeight` presets per device and display mode
+ * Fullscreen has no preset - it uses the full window height below the host chrome
+ */
+export const MAX_HEIGHT_PRESETS: Record<DeviceType, Record<Exclude<DisplayMode, 'fullscreen'>, number>> = {
+  desktop: { inline: 600, pip: 480 },
+  tablet: { inline: 560, pip: 420 },
+  mobile: { inline: 480, pip: 360 },
+};
+
+/**
+ * Locales offered by the toolbar locale picker
+ * Includes right-to-left locales for layout testing
+ */
+export const LOCALE_PRESETS: string[] = [
+  'en-US',
+  'en-GB',
+  'es-ES',
+  'fr-FR',
+  'de-DE',
+  'it-IT',
+  'pt-BR',
+  'ja-JP',
+  'ko-KR',
+  'zh-CN',
+  'hi-IN',
+  'ar-SA',
+  'he-IL',
+];
+
+/**
+ * How the widget container handles content taller than `maxHeight`
+ * - `scroll`: content scrolls inside the container
+ * - `clip`: content beyond `maxHeight` is cut off
+ */
+export type OverflowMode = 'scroll' | 'clip';
+
 /**
  * Re-export commonly used types from ChatGPT Apps SDK (@ainativekit/ui)
  */
@@ -1,3 +1,6 @@
+import { emptyFromSchema, generateFromSchema, type GenerateOptions, type MockSchema } from './mockSchema';
+import { deriveMockVariants, type MockVariantName } from './mockVariants';
+
 /**
  * Configuration for creating mock data variations
  */
@@ -23,19 +26,103 @@ export interface MockDataConfig<T> {
    * ```
    */
   emptyData?: T;
+
+  /**
+   * Edge-case variants to derive from the full data
+   * `true` derives all of them, `false` none
+   * @default true
+   *
+   * @example
+   * ```typescript
+   * variants: ['singleItem', 'longStrings', 'brokenImages']
+   * ```
+   */
+  variants?: boolean | MockVariantName[];
+}
+
+/**
+ * Configuration for generating mock data from a JSON Schema
+ */
+export interface SchemaMockDataConfig<T> extends GenerateOptions {
+  /**
+   * JSON Schema describing the tool output
+   *
+   * @example
+   * ```typescript
+   * schema: {
+   *   type: 'object',
+   *   required: ['places'],
+   *   properties: {
+   *     places: { type: 'array', items: { $ref: '#/$defs/place' } },
+   *     nextCursor: { type: 'string' }
+   *   },
+   *   $defs: { place: { type: 'object', properties: { id: { type: 'string' }, name: { type: 'string' }, rating: { type: 'number' } } } }
+   * }
+   * ```
+   */
+  schema: MockSchema;
+
+  /**
+   * Transform function to create empty state from the generated data
+   * If not provided, the empty state keeps only the schema's required fields
+   */
+  emptyTransform?: (fullData: T) => T;
+
+  /**
+   * Optional explicit empty state
+   * Takes precedence over emptyTransform
+   */
+  emptyData?: T;
+
+  /**
+   * Edge-case variants to derive from the generated data
+   * @default true
+   */
+  variants?: boolean | MockVariantName[];
+}
+
+const SCHEMA_CONFIG_KEYS = ['schema', 'seed', 'count', 'emptyTransform', 'emptyData', 'variants'];
+
+/** Marks objects created with `createMockData()` */
+const MOCK_DATA_MARKER = Symbol.for('@ainativekit/devtools.mockData');
+
+/**
+ * Whether a value was created with `createMockData()`
+ */
+export function isMockData(value: unknown): value is MockData<unknown> {
+  return value !== null && typeof value === 'object' && MOCK_DATA_MARKER in value;
+}
+
+/**
+ * Whether the only argument is a schema config rather than full data
+ */
+function isSchemaConfig<T>(value: unknown): value is SchemaMockDataConfig<T> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const { schema } = value as { schema?: unknown };
+  return (
+    schema !== null &&
+    typeof schema === 'object' &&
+    ('type' in schema || 'properties' in schema || '$ref' in schema) &&
+    Object.keys(value).every(key => SCHEMA_CONFIG_KEYS.includes(key))
+  );
 }
 
 /**
  * Mock data with full and empty state variations
  *
  * Provides structured access to full and empty data states for testing widgets
- * in different scenarios.
+ * in different scenarios. Pass it directly as a data loader and `DevContainer`
+ * lists every variant in the data source dropdown.
  */
 export interface MockData<T> {
   /** Full dataset with all data */
   full: T;
   /** Empty state (valid structure, no data) */
   empty: T;
+  /** Edge-case variants derived from the full data */
+  variants?: Partial<Record<MockVariantName, T>>;
 }
 
 /**
@@ -48,7 +135,7 @@ export interface MockData<T> {
  * @template T - The type of your mock data
  * @param fullData - The full dataset to use for testing
  * @param config - Optional configuration for empty state generation
- * @returns Object with full and empty data variations
+ * @returns Object with full and empty data and edge-case variants
  *
  * @example
  * **Basic usage with transform:**
@@ -90,30 +177,65 @@ export interface MockData<T> {
  * const mockData = createMockData({ items: [1, 2, 3] });
  * // mockData.empty = {}
  * ```
+ *
+ * @example
+ * **Generated from a JSON Schema (seeded, offline):**
+ * ```typescript
+ * const mockPlaces = createMockData<PlacesData>({
+ *   schema: placesSchema,
+ *   seed: 42,   // Same seed, same data
+ *   count: 25   // Items per array
+ * });
+ * // mockPlaces.empty keeps only the schema's required fields
+ * ```
  */
+export function createMockData<T>(config: SchemaMockDataConfig<T>): MockData<T>;
+export function createMockData<T>(fullData: T, config?: MockDataConfig<T>): MockData<T>;
 export function createMockData<T>(
-  fullData: T,
+  fullDataOrSchemaConfig: T | SchemaMockDataConfig<T>,
   config?: MockDataConfig<T>
 ): MockData<T> {
+  if (config === undefined && isSchemaConfig<T>(fullDataOrSchemaConfig)) {
+    const { schema, seed, count, ...rest } = fullDataOrSchemaConfig;
+    const fullData = generateFromSchema<T>(schema, { seed, count });
+    return withVariants(
+      fullData,
+      resolveEmptyData(fullData, rest, () => emptyFromSchema<T>(schema, { seed, count })),
+      rest.variants,
+      schema
+    );
+  }
+
+  const fullData = fullDataOrSchemaConfig as T;
+  // Fallback to empty object (typed as T for flexibility)
+  return withVariants(fullData, resolveEmptyData(fullData, config, () => ({} as T)), config?.variants);
+}
+
+function resolveEmptyData<T>(fullData: T, config: MockDataConfig<T> | undefined, fallback: () => T): T {
   // Priority 1: Use explicit empty data if provided
   if (config?.emptyData) {
-    return {
-      full: fullData,
-      empty: config.emptyData
-    };
+    return config.emptyData;
   }
 
   // Priority 2: Use transform function if provided
   if (config?.emptyTransform) {
-    return {
-      full: fullData,
-      empty: config.emptyTransform(fullData)
-    };
+    return config.emptyTransform(fullData);
   }
 
-  // Priority 3: Fallback to empty object (typed as T for flexibility)
-  return {
-    full: fullData,
-    empty: {} as T
+  // Priority 3: Fallback
+  return fallback();
+}
+
+function withVariants<T>(
+  full: T,
+  empty: T,
+  variants: boolean | MockVariantName[] = true,
+  schema?: MockSchema
+): MockData<T> {
+  const mockData: MockData<T> = {
+    full,
+    empty,
+    variants: variants === false ? {} : deriveMockVariants(full, variants === true ? undefined : variants, schema),
   };
+  return Object.defineProperty(mockData, MOCK_DATA_MARKER, { value: true });
 }
@@ -0,0 +1,51 @@
+import type { DataLoader, DataLoaderConfig, ToolInputSource } from '../types';
+import { isMockData } from './createMockData';
+import { MOCK_VARIANT_LABELS, type MockVariantName } from './mockVariants';
+
+/**
+ * Normalize a data loader to its config form
+ */
+export function toDataLoaderConfig(loader: DataLoader): DataLoaderConfig {
+  if (typeof loader === 'function') {
+    return { load: loader };
+  }
+  if (isMockData(loader)) {
+    return { load: () => loader.full };
+  }
+  return loader;
+}
+
+/**
+ * Expand `createMockData()` loaders into one data source per variant
+ * (`"name · single item"`, ...), and collect their empty states
+ */
+export function expandDataLoaders(loaders: Record<string, DataLoader>): {
+  loaders: Record<string, DataLoader>;
+  emptyLoaders: Record<string, DataLoader>;
+} {
+  const expanded: Record<string, DataLoader> = {};
+  const emptyLoaders: Record<string, DataLoader> = {};
+
+  for (const [name, loader] of Object.entries(loaders)) {
+    expanded[name] = loader;
+    if (!isMockData(loader)) continue;
+
+    emptyLoaders[name] = () => loader.empty;
+    for (const [variant, data] of Object.entries(loader.variants ?? {})) {
+      const variantName = `${name} · ${MOCK_VARIANT_LABELS[variant as MockVariantName]}`;
+      expanded[variantName] = () => data;
+      emptyLoaders[variantName] = () => loader.empty;
+    }
+  }
+
+  return { loaders: expanded, emptyLoaders };
+}
+
+/**
+ * Resolve a tool input value or factory
+ * @returns The tool input, or an empty object when no source is given
+ */
+export async function resolveToolInput(source?: ToolInputSource): Promise<Record<string, unknown>> {
+  if (!source) return {};
+  return typeof source === 'function' ? await source() : source;
+}
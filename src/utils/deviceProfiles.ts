@@ -0,0 +1,31 @@
+import type { OpenAiGlobals } from '@ainativekit/ui';
+import type { DeviceProfile } from '../types';
+
+/**
+ * Build `window.openai.userAgent` for a device profile
+ * Capabilities not set on the profile are derived from its type.
+ */
+export function toUserAgent(profile: DeviceProfile): OpenAiGlobals['userAgent'] {
+  return {
+    device: { type: profile.type },
+    capabilities: {
+      hover: profile.capabilities?.hover ?? profile.type === 'desktop',
+      touch: profile.capabilities?.touch ?? profile.type !== 'desktop',
+    },
+  };
+}
+
+/**
+ * Build `window.openai.safeArea` for a device profile
+ * Missing insets default to 0.
+ */
+export function toSafeArea(profile: DeviceProfile): OpenAiGlobals['safeArea'] {
+  return {
+    insets: {
+      top: profile.safeArea?.top ?? 0,
+      bottom: profile.safeArea?.bottom ?? 0,
+      left: profile.safeArea?.left ?? 0,
+      right: profile.safeArea?.right ?? 0,
+    },
+  };
+}
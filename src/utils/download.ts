@@ -0,0 +1,24 @@
+/**
+ * Trigger a browser download of a value serialized as JSON
+ *
+ * @param filename - Name of the downloaded file
+ * @param data - Value to serialize
+ */
+export function downloadJson(filename: string, data: unknown): void {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Build a filesystem-safe timestamp suffix for exported files
+ */
+export function fileTimestamp(date: Date = new Date()): string {
+  return date.toISOString().replace(/[:.]/g, '-');
+}
@@ -0,0 +1,48 @@
+/**
+ * A file dropped onto the page, with its path inside any dropped folder
+ */
+export interface DroppedFile {
+  /** Path relative to the drop, e.g. `fixtures/search.json` */
+  path: string;
+  file: File;
+}
+
+// Read every entry of a directory - readEntries returns them in batches
+async function readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<DroppedFile[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [{ path: entry.fullPath.replace(/^\//, ''), file }];
+  }
+  if (entry.isDirectory) {
+    const children = await readDirectory(entry as FileSystemDirectoryEntry);
+    return (await Promise.all(children.map(readEntry))).flat();
+  }
+  return [];
+}
+
+/**
+ * Read the files of a drop, walking dropped folders recursively
+ * Call it while handling the `drop` event - the dropped items are only
+ * readable until the handler returns.
+ */
+export async function readDroppedFiles(dataTransfer: DataTransfer): Promise<DroppedFile[]> {
+  // Collect the entries before the first await
+  const items = Array.from(dataTransfer.items).filter(item => item.kind === 'file');
+  const sources = items.map(item => item.webkitGetAsEntry?.() ?? item.getAsFile());
+
+  const files = await Promise.all(sources.map(async (source): Promise<DroppedFile[]> => {
+    if (source instanceof File) return [{ path: source.name, file: source }];
+    return source ? readEntry(source) : [];
+  }));
+  return files.flat();
+}
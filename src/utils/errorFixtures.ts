@@ -0,0 +1,44 @@
+import type { ErrorFixture, ErrorFixtures } from '../types';
+
+/**
+ * Built-in error fixtures offered in the Error menu
+ */
+export const ERROR_FIXTURES: ErrorFixtures = {
+  // Data loader failures keep their message; the Error button shows a generic failure
+  toolError: (error?: Error) => (error
+    ? { error: error.message }
+    : { error: 'Something went wrong', message: 'This is a simulated error for testing error states' }),
+  timeout: {
+    error: 'timeout',
+    message: 'The tool took too long to respond. Please try again.',
+    retryable: true,
+  },
+  authRequired: {
+    isError: true,
+    content: [{ type: 'text', text: 'Authentication required. Sign in to continue.' }],
+    _meta: {
+      'mcp/www_authenticate': [
+        'Bearer resource_metadata="https://example.com/.well-known/oauth-protected-resource", error="invalid_token"',
+      ],
+    },
+  },
+  rateLimited: {
+    error: 'rate_limited',
+    message: 'Too many requests. Try again in 30 seconds.',
+    retryAfter: 30,
+  },
+  mcpError: {
+    isError: true,
+    content: [{ type: 'text', text: 'Tool execution failed: the upstream service returned 500.' }],
+  },
+};
+
+/**
+ * Build the payload of an error fixture
+ *
+ * @param fixture - Error fixture
+ * @param error - Error that caused the error state, for data loader failures
+ */
+export function resolveErrorFixture(fixture: ErrorFixture, error?: Error): object {
+  return typeof fixture === 'function' ? fixture(error) : fixture;
+}
@@ -0,0 +1,80 @@
+/**
+ * Locale helpers for locale simulation and pseudo-localization
+ */
+
+/** Languages written right-to-left */
+const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur', 'ps', 'yi', 'dv', 'ckb'];
+
+/**
+ * Whether a BCP 47 locale is written right-to-left
+ *
+ * @example
+ * ```typescript
+ * isRtlLocale('ar-SA'); // true
+ * isRtlLocale('en-US'); // false
+ * ```
+ */
+export function isRtlLocale(locale: string): boolean {
+  const language = locale.toLowerCase().split(/[-_]/)[0];
+  return RTL_LANGUAGES.includes(language);
+}
+
+const ACCENTED: Record<string, string> = {
+  a: 'à', b: 'ƀ', c: 'ç', d: 'ð', e: 'é', f: 'ƒ', g: 'ĝ', h: 'ĥ', i: 'î', j: 'ĵ', k: 'ķ', l: 'ļ', m: 'ɱ',
+  n: 'ñ', o: 'ö', p: 'þ', q: 'ǫ', r: 'ŕ', s: 'š', t: 'ţ', u: 'û', v: 'ṽ', w: 'ŵ', x: 'ẋ', y: 'ý', z: 'ž',
+  A: 'À', B: 'Ɓ', C: 'Ç', D: 'Ð', E: 'É', F: 'Ƒ', G: 'Ĝ', H: 'Ĥ', I: 'Î', J: 'Ĵ', K: 'Ķ', L: 'Ļ', M: 'Ṁ',
+  N: 'Ñ', O: 'Ö', P: 'Þ', Q: 'Ǫ', R: 'Ŕ', S: 'Š', T: 'Ţ', U: 'Û', V: 'Ṽ', W: 'Ŵ', X: 'Ẋ', Y: 'Ý', Z: 'Ž',
+};
+
+/**
+ * Strings that are identifiers rather than copy: URLs, paths, colors,
+ * dates, numbers and single slug-like tokens (ids, enum values) - lowercase
+ * tokens with a digit or a `-`, `_` or `.` separator, so plain words stay copy
+ */
+const NON_COPY_PATTERN = /^(?:[a-z][a-z0-9+.-]*:\/\/|(?:mailto|tel|data):|\/|#|\d{4}-\d{2}-\d{2}|[-+$€£]?[\d.,%]+$|(?=[a-z0-9]*[\d._-])[a-z0-9]+(?:[-_.][a-z0-9]+)*$)/;
+
+/**
+ * Whether a string is user-facing copy rather than an identifier, URL, date or number
+ */
+export function isCopyString(text: string): boolean {
+  return text.trim() !== '' && !NON_COPY_PATTERN.test(text);
+}
+
+/**
+ * Pseudo-localize a single string
+ *
+ * Accents every letter and pads the text by roughly 40% inside brackets,
+ * so untranslated strings, hard-coded widths and truncation stand out.
+ *
+ * @example
+ * ```typescript
+ * pseudoLocalizeString('Open map'); // '[Öþéñ ɱàþ ·····]'
+ * ```
+ */
+export function pseudoLocalizeString(text: string): string {
+  if (!isCopyString(text)) {
+    return text;
+  }
+  const accented = text.replace(/[a-zA-Z]/g, char => ACCENTED[char] ?? char);
+  const padding = '·'.repeat(Math.max(1, Math.round(text.length * 0.4)));
+  return `[${accented} ${padding}]`;
+}
+
+/**
+ * Pseudo-localize every copy string in a value, recursively
+ * Object keys and non-string values are left untouched.
+ */
+export function pseudoLocalize<T>(value: T): T {
+  if (typeof value === 'string') {
+    return pseudoLocalizeString(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => pseudoLocalize(item)) as T;
+  }
+  if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, pseudoLocalize(item)])
+    ) as T;
+  }
+  return value;
+}
@@ -0,0 +1,207 @@
+/**
+ * Import recorded MCP `tools/call` responses as data sources and scenarios
+ */
+
+import type { DataLoaderConfig, ToolResult } from '../types';
+import type { ScenarioCollection } from '../mock/types';
+import { toolResult } from './toolResults';
+
+/**
+ * A `tools/call` response read from a recording
+ */
+export interface RecordedToolCall {
+  /** Data source name - the tool and its arguments, or the file name when the request wasn't recorded */
+  name: string;
+  /** Tool name, when the request was recorded */
+  tool?: string;
+  /** Tool arguments, when the request was recorded */
+  arguments?: Record<string, unknown>;
+  /** The tool result */
+  result: ToolResult;
+}
+
+/**
+ * Recorded files keyed by file name or path
+ * Values are JSON text, parsed JSON, or JSON modules (`import.meta.glob('./fixtures/*.json', { eager: true })`).
+ */
+export type McpRecordingFiles = Record<string, unknown>;
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isToolsCallRequest = (value: unknown): value is JsonObject =>
+  isObject(value) && value.method === 'tools/call';
+
+const isJsonRpcResponse = (value: unknown): value is JsonObject =>
+  isObject(value) && ('result' in value || 'error' in value) && !('method' in value);
+
+/** Longest argument value shown in a data source name */
+const MAX_ARGUMENT_LENGTH = 24;
+
+/**
+ * Name a tool call after the tool and its arguments: `search(city: "Paris", limit: 5)`
+ */
+function nameToolCall(tool: string, args: Record<string, unknown> = {}): string {
+  const formatted = Object.entries(args).map(([key, value]) => {
+    const text = JSON.stringify(value) ?? String(value);
+    return `${key}: ${text.length > MAX_ARGUMENT_LENGTH ? `${text.slice(0, MAX_ARGUMENT_LENGTH - 1)}…` : text}`;
+  });
+  return `${tool}(${formatted.join(', ')})`;
+}
+
+/**
+ * Map the `result` (or JSON-RPC `error`) of a response to a tool result
+ * JSON-RPC errors become `isError` results carrying the error message.
+ */
+function toRecordedResult(response: JsonObject): ToolResult {
+  if (isObject(response.error)) {
+    const { code, message } = response.error;
+    return toolResult({
+      isError: true,
+      content: [{ type: 'text', text: `${message ?? 'Unknown error'}${code !== undefined ? ` (JSON-RPC ${code})` : ''}` }],
+    });
+  }
+
+  const result = isObject(response.result) ? response.result : {};
+  const mapped: ToolResult = {};
+  if ('structuredContent' in result) mapped.structuredContent = result.structuredContent;
+  if ('_meta' in result) mapped._meta = result._meta as Record<string, unknown>;
+  if (Array.isArray(result.content)) mapped.content = result.content;
+  if (result.isError === true) mapped.isError = true;
+  return toolResult(mapped);
+}
+
+/**
+ * Read the tool calls from one recording
+ *
+ * Accepted shapes:
+ * - A JSON-RPC response: `{ jsonrpc: '2.0', id, result }` (named after the file)
+ * - A request/response pair: `{ request: { method: 'tools/call', params }, response }`
+ * - A message log: an array of requests and responses, paired by `id`
+ * - A bare tool result: `{ structuredContent, _meta, content, isError }`
+ *
+ * @param recording - Parsed JSON of the recording
+ * @param fileName - Name used for responses without a recorded request
+ * @throws If the recording contains no `tools/call` response
+ */
+export function parseMcpRecording(recording: unknown, fileName = 'recording'): RecordedToolCall[] {
+  const fallbackName = fileName.replace(/^.*[\\/]/, '').replace(/\.json$/i, '');
+  const calls: RecordedToolCall[] = [];
+
+  const addCall = (response: JsonObject, request?: JsonObject) => {
+    const params = request && isObject(request.params) ? request.params : undefined;
+    const tool = typeof params?.name === 'string' ? params.name : undefined;
+    const args = isObject(params?.arguments) ? params.arguments : undefined;
+    calls.push({
+      name: tool ? nameToolCall(tool, args) : fallbackName,
+      tool,
+      arguments: args,
+      result: toRecordedResult(response),
+    });
+  };
+
+  const entries = Array.isArray(recording) ? recording : [recording];
+  const requests = new Map<unknown, JsonObject>();
+  for (const entry of entries) {
+    if (isToolsCallRequest(entry)) {
+      requests.set(entry.id, entry);
+    }
+  }
+
+  for (const entry of entries) {
+    if (isObject(entry) && isToolsCallRequest(entry.request) && isObject(entry.response)) {
+      addCall(entry.response, entry.request);
+    } else if (isJsonRpcResponse(entry)) {
+      const request = requests.get(entry.id);
+      // Responses to other methods (initialize, tools/list, ...) in a message log are skipped
+      if (request || !Array.isArray(recording)) {
+        addCall(entry, request);
+      }
+    } else if (isObject(entry) && ('structuredContent' in entry || 'isError' in entry || Array.isArray(entry.content))) {
+      addCall({ result: entry });
+    }
+  }
+
+  if (calls.length === 0) {
+    throw new Error(`"${fileName}" contains no recorded tools/call response`);
+  }
+  return calls;
+}
+
+/**
+ * Read the tool calls from recorded files, with unique names
+ * Files that can't be read are skipped with a warning.
+ */
+export function importMcpRecordings(files: McpRecordingFiles, reservedNames: string[] = []): RecordedToolCall[] {
+  const taken = new Set(reservedNames);
+  const calls: RecordedToolCall[] = [];
+
+  for (const [fileName, file] of Object.entries(files)) {
+    try {
+      const content = isObject(file) && 'default' in file ? file.default : file;
+      const recording = typeof content === 'string' ? JSON.parse(content) : content;
+      for (const call of parseMcpRecording(recording, fileName)) {
+        let name = call.name;
+        for (let copy = 2; taken.has(name); copy++) {
+          name = `${call.name} (${copy})`;
+        }
+        taken.add(name);
+        calls.push({ ...call, name });
+      }
+    } catch (error) {
+      console.warn(`⚠️ Skipped MCP recording "${fileName}":`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return calls;
+}
+
+/**
+ * Data loaders for imported tool calls, keyed by name
+ */
+export function toRecordedDataLoaders(calls: RecordedToolCall[]): Record<string, DataLoaderConfig> {
+  return Object.fromEntries(calls.map(call => [call.name, { load: () => call.result, toolInput: call.arguments }]));
+}
+
+/**
+ * Turn recorded MCP responses into data loaders
+ * The tool arguments become `toolInput`.
+ *
+ * @example
+ * ```typescript
+ * const recordings = import.meta.glob('./fixtures/mcp/*.json', { eager: true });
+ *
+ * <DevContainer dataLoaders={mcpDataLoaders(recordings)}>
+ *   <SearchWidget />
+ * </DevContainer>
+ * ```
+ */
+export function mcpDataLoaders(files: McpRecordingFiles): Record<string, DataLoaderConfig> {
+  return toRecordedDataLoaders(importMcpRecordings(files));
+}
+
+/**
+ * Turn recorded MCP responses into scenarios for `WidgetPortal`
+ *
+ * @example
+ * ```typescript
+ * const widgets = [{
+ *   id: 'search',
+ *   name: 'Search',
+ *   component: SearchWidget,
+ *   scenarios: mcpScenarios(import.meta.glob('./fixtures/mcp/*.json', { eager: true }))
+ * }];
+ * ```
+ */
+export function mcpScenarios(files: McpRecordingFiles): ScenarioCollection<ToolResult> {
+  return {
+    scenarios: importMcpRecordings(files).map(call => ({
+      name: call.name,
+      data: call.result,
+      toolInput: call.arguments,
+      description: call.result.isError ? 'Recorded tool error' : 'Recorded tool response',
+    })),
+  };
+}
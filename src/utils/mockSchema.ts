@@ -0,0 +1,360 @@
+/**
+ * Offline, seeded mock data generation from JSON Schema
+ */
+
+/**
+ * JSON Schema subset understood by the mock data generator
+ *
+ * Supports `type` (including `['string', 'null']`), `properties`, `required`,
+ * `items`, `enum`, `const`, `default`, `examples`, `format`, `minimum` /
+ * `maximum`, `minLength` / `maxLength`, `minItems` / `maxItems`, `oneOf` /
+ * `anyOf` and local `$ref`s to `definitions` or `$defs`. Recursive `$ref`s are
+ * expanded a few levels deep.
+ */
+export interface MockSchema {
+  type?: MockSchemaType | MockSchemaType[];
+  properties?: Record<string, MockSchema>;
+  required?: string[];
+  items?: MockSchema;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  examples?: unknown[];
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  oneOf?: MockSchema[];
+  anyOf?: MockSchema[];
+  $ref?: string;
+  definitions?: Record<string, MockSchema>;
+  $defs?: Record<string, MockSchema>;
+  [keyword: string]: unknown;
+}
+
+export type MockSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * Options for schema-driven generation
+ */
+export interface GenerateOptions {
+  /**
+   * Seed for the pseudo-random generator - the same seed always produces the same data
+   * @default 1
+   */
+  seed?: number;
+  /**
+   * Number of items generated per array, clamped to its `minItems` / `maxItems`
+   * @default 3
+   */
+  count?: number;
+}
+
+/**
+ * Deterministic pseudo-random generator (mulberry32)
+ */
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min: number, max: number) => Math.floor(next() * (max - min + 1)) + min,
+    pick: <T>(values: readonly T[]): T => values[Math.floor(next() * values.length)],
+  };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+const FIRST_NAMES = ['Ava', 'Noah', 'Mia', 'Liam', 'Zoe', 'Ethan', 'Maya', 'Leo', 'Iris', 'Omar', 'Nina', 'Kai'];
+const LAST_NAMES = ['Garcia', 'Chen', 'Patel', 'Smith', 'Nakamura', 'Okafor', 'Rossi', 'Novak', 'Silva', 'Kim'];
+const CITIES = ['San Francisco', 'London', 'Tokyo', 'Berlin', 'Lisbon', 'Toronto', 'Seoul', 'Mexico City', 'Sydney'];
+const STREETS = ['Market Street', 'Grant Avenue', 'Columbus Avenue', 'Valencia Street', 'Union Square', 'Mission Street'];
+const ADJECTIVES = ['Golden', 'Cozy', 'Bright', 'Hidden', 'Urban', 'Classic', 'Rustic', 'Modern', 'Sunny', 'Little'];
+const NOUNS = ['Garden', 'Kitchen', 'Harbor', 'Studio', 'Corner', 'Market', 'Table', 'House', 'Lane', 'Bistro'];
+const WORDS = [
+  'fresh', 'local', 'seasonal', 'friendly', 'quiet', 'popular', 'handmade', 'award-winning', 'family-run',
+  'spacious', 'authentic', 'welcoming', 'specialty', 'signature', 'crafted', 'daily', 'open', 'late',
+];
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+function sentence(random: Random, words: number): string {
+  const parts = Array.from({ length: words }, () => random.pick(WORDS));
+  return `${capitalize(parts.join(' '))}.`;
+}
+
+/**
+ * Generate a string from its format, or a realistic value guessed from the property name
+ */
+function generateString(schema: MockSchema, random: Random, key: string, index: number, parentKey = ''): string {
+  const name = key.toLowerCase();
+  const fullName = () => `${random.pick(FIRST_NAMES)} ${random.pick(LAST_NAMES)}`;
+  const slug = `${parentKey || key || 'item'}-${index + 1}`;
+
+  let value: string;
+  switch (schema.format) {
+    case 'date-time':
+      value = new Date(Date.UTC(2025, random.int(0, 11), random.int(1, 28), random.int(8, 20))).toISOString();
+      break;
+    case 'date':
+      value = new Date(Date.UTC(2025, random.int(0, 11), random.int(1, 28))).toISOString().slice(0, 10);
+      break;
+    case 'email':
+      value = `${random.pick(FIRST_NAMES).toLowerCase()}.${random.pick(LAST_NAMES).toLowerCase()}@example.com`;
+      break;
+    case 'uri':
+    case 'url':
+      value = `https://example.com/${key || 'item'}/${index + 1}`;
+      break;
+    case 'uuid': {
+      const hex = () => random.int(0, 15).toString(16);
+      value = 'xxxxxxxx-xxxx-4xxx-8xxx-xxxxxxxxxxxx'.replace(/x/g, hex);
+      break;
+    }
+    default:
+      if (name === 'id' || /(_id|Id)$/.test(key)) value = slug;
+      else if (/(image|thumbnail|avatar|photo|icon)/.test(name)) value = `https://picsum.photos/seed/${slug}/400/300`;
+      else if (/(url|link|href)/.test(name)) value = `https://example.com/${index + 1}`;
+      else if (/email/.test(name)) value = `${random.pick(FIRST_NAMES).toLowerCase()}@example.com`;
+      else if (/phone/.test(name)) value = `+1 415 555 ${String(random.int(0, 9999)).padStart(4, '0')}`;
+      else if (/(author|user|owner|person|customer|reviewer)/.test(name)) value = fullName();
+      else if (/city/.test(name)) value = random.pick(CITIES);
+      else if (/(address|street|subtitle)/.test(name)) value = `${random.int(1, 999)} ${random.pick(STREETS)}`;
+      else if (/(location|place)/.test(name)) value = random.pick(CITIES);
+      else if (/(name|title|label)/.test(name)) value = `${random.pick(ADJECTIVES)} ${random.pick(NOUNS)}`;
+      else if (/(description|summary|body|text|content|message)/.test(name)) value = sentence(random, random.int(8, 14));
+      else if (/(date|time|At|_at)$/.test(key)) value = new Date(Date.UTC(2025, random.int(0, 11), random.int(1, 28))).toISOString();
+      else value = random.pick(WORDS);
+  }
+
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    value = value.slice(0, schema.maxLength);
+  }
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    value = value.padEnd(schema.minLength, 'x');
+  }
+  return value;
+}
+
+/**
+ * Generate a number from its bounds, or a realistic range guessed from the property name
+ */
+function generateNumber(schema: MockSchema, random: Random, key: string, integer: boolean): number {
+  const name = key.toLowerCase();
+  let [min, max] = [0, 100];
+  if (/rating|stars|score/.test(name)) [min, max] = [1, 5];
+  else if (/price|cost|amount/.test(name)) [min, max] = [5, 200];
+  else if (/^lat/.test(name)) [min, max] = [-80, 80];
+  else if (/^(lng|lon)/.test(name)) [min, max] = [-170, 170];
+  else if (/percent|progress/.test(name)) [min, max] = [0, 100];
+
+  min = schema.minimum ?? min;
+  max = schema.maximum ?? max;
+  if (min > max) {
+    // Explicit bounds win over the guessed range
+    if (schema.minimum === undefined) min = Math.min(0, max);
+    else max = Math.max(min, schema.maximum ?? min);
+  }
+
+  if (integer) {
+    return random.int(Math.ceil(min), Math.floor(max));
+  }
+  return Math.round((min + random.next() * (max - min)) * 100) / 100;
+}
+
+interface Context {
+  root: MockSchema;
+  random: Random;
+  count: number;
+}
+
+/** How many times a `$ref` is expanded within itself, e.g. the levels of a recursive tree */
+const MAX_REF_DEPTH = 3;
+
+interface Resolved {
+  schema: MockSchema;
+  /** `$ref`s being expanded, outermost first */
+  refs: string[];
+}
+
+// Whether expanding a schema's own `$ref` would pass MAX_REF_DEPTH
+const exceedsRefDepth = (schema: MockSchema | undefined, refs: string[]) =>
+  !!schema?.$ref && refs.filter(ref => ref === schema.$ref).length >= MAX_REF_DEPTH;
+
+/**
+ * Follow local `$ref`s and pick a branch of `oneOf` / `anyOf`
+ *
+ * @param refs - `$ref`s already being expanded by the callers
+ * @returns The resolved schema, or `null` when a recursive `$ref` passes MAX_REF_DEPTH
+ */
+function resolveSchema(
+  schema: MockSchema,
+  context: Context,
+  pickBranch: (branches: MockSchema[]) => MockSchema,
+  refs: string[] = []
+): Resolved | null {
+  if (schema.$ref) {
+    if (exceedsRefDepth(schema, refs)) return null;
+    const match = schema.$ref.match(/^#\/(definitions|\$defs)\/(.+)$/);
+    const target = match ? context.root[match[1] as 'definitions' | '$defs']?.[match[2]] : undefined;
+    if (!target) {
+      throw new Error(`Unresolvable $ref "${schema.$ref}" - only local #/definitions and #/$defs refs are supported`);
+    }
+    return resolveSchema(target, context, pickBranch, [...refs, schema.$ref]);
+  }
+  const branches = schema.oneOf ?? schema.anyOf;
+  if (branches && branches.length > 0) {
+    return resolveSchema(pickBranch(branches), context, pickBranch, refs);
+  }
+  return { schema, refs };
+}
+
+/** Primary type of a schema, ignoring `null` unless it is the only option */
+function primaryType(schema: MockSchema): MockSchemaType | undefined {
+  if (Array.isArray(schema.type)) {
+    return schema.type.find(type => type !== 'null') ?? schema.type[0];
+  }
+  if (schema.type) return schema.type;
+  if (schema.properties) return 'object';
+  if (schema.items) return 'array';
+  return undefined;
+}
+
+function generateValue(input: MockSchema, context: Context, key: string, index: number, parentKey = '', parentRefs: string[] = []): unknown {
+  const { random } = context;
+  const resolved = resolveSchema(input, context, branches => random.pick(branches), parentRefs);
+  if (!resolved) return null;
+  const { schema, refs } = resolved;
+
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum && schema.enum.length > 0) return random.pick(schema.enum);
+  if (schema.examples && schema.examples.length > 0) return random.pick(schema.examples);
+  if (schema.default !== undefined) return schema.default;
+
+  switch (primaryType(schema)) {
+    case 'object':
+      // Optional properties that would recurse too deep are left out
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {})
+          .filter(([name, property]) => schema.required?.includes(name) || !exceedsRefDepth(property, refs))
+          .map(([name, property]) => [
+            name,
+            generateValue(property, context, name, index, key, refs),
+          ])
+      );
+    case 'array': {
+      if (exceedsRefDepth(schema.items, refs)) return [];
+      const min = schema.minItems ?? 0;
+      const max = schema.maxItems ?? Infinity;
+      const length = Math.min(max, Math.max(min, context.count));
+      const itemKey = key.endsWith('s') ? key.slice(0, -1) : key;
+      return Array.from({ length }, (_, i) => generateValue(schema.items ?? {}, context, itemKey, i, '', refs));
+    }
+    case 'string':
+      return generateString(schema, random, key, index, parentKey);
+    case 'integer':
+      return generateNumber(schema, random, key, true);
+    case 'number':
+      return generateNumber(schema, random, key, false);
+    case 'boolean':
+      return random.next() < 0.5;
+    default:
+      return null;
+  }
+}
+
+function emptyValue(input: MockSchema, context: Context, key: string, parentRefs: string[] = []): unknown {
+  const resolved = resolveSchema(input, context, branches => branches[0], parentRefs);
+  if (!resolved) return null;
+  const { schema, refs } = resolved;
+
+  if (schema.const !== undefined) return schema.const;
+  if (schema.default !== undefined) return schema.default;
+  if (schema.enum && schema.enum.length > 0) return schema.enum[0];
+
+  switch (primaryType(schema)) {
+    case 'object':
+      return Object.fromEntries(
+        (schema.required ?? [])
+          .filter(name => schema.properties?.[name])
+          .map(name => [name, emptyValue(schema.properties![name], context, name, refs)])
+      );
+    case 'array': {
+      // Keep the minimum number of items the schema demands
+      if (exceedsRefDepth(schema.items, refs)) return [];
+      const itemKey = key.endsWith('s') ? key.slice(0, -1) : key;
+      return Array.from({ length: schema.minItems ?? 0 }, (_, i) => generateValue(schema.items ?? {}, context, itemKey, i, '', refs));
+    }
+    case 'string':
+      return schema.format || (schema.minLength ?? 0) > 0 ? generateString(schema, context.random, key, 0) : '';
+    case 'integer':
+    case 'number':
+      return Math.min(Math.max(0, schema.minimum ?? 0), schema.maximum ?? Infinity);
+    case 'boolean':
+      return false;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Generate deterministic mock data from a JSON Schema
+ *
+ * @example
+ * ```typescript
+ * generateFromSchema({
+ *   type: 'object',
+ *   properties: { places: { type: 'array', items: { type: 'object', properties: { name: { type: 'string' } } } } }
+ * }, { seed: 7, count: 10 });
+ * // { places: [{ name: 'Cozy Harbor' }, ...10 items] }
+ * ```
+ */
+export function generateFromSchema<T = unknown>(schema: MockSchema, options: GenerateOptions = {}): T {
+  const context: Context = { root: schema, random: createRandom(options.seed ?? 1), count: options.count ?? 3 };
+  return generateValue(schema, context, '', 0) as T;
+}
+
+/**
+ * Generate the smallest valid value for a JSON Schema
+ * Objects keep only their required properties; arrays keep `minItems` items.
+ */
+export function emptyFromSchema<T = unknown>(schema: MockSchema, options: GenerateOptions = {}): T {
+  const context: Context = { root: schema, random: createRandom(options.seed ?? 1), count: options.count ?? 3 };
+  return emptyValue(schema, context, '') as T;
+}
+
+/**
+ * Remove the properties a JSON Schema doesn't require, recursively
+ * Values without a matching schema are kept as they are.
+ */
+export function omitOptionalFields<T>(value: T, schema: MockSchema): T {
+  const context: Context = { root: schema, random: createRandom(1), count: 0 };
+
+  // Recursion follows the value, so recursive `$ref`s always end
+  const omit = (current: unknown, input: MockSchema): unknown => {
+    const resolved = resolveSchema(input, context, branches => branches[0])?.schema ?? {};
+    if (Array.isArray(current)) {
+      return resolved.items ? current.map(item => omit(item, resolved.items!)) : current;
+    }
+    if (current !== null && typeof current === 'object' && resolved.properties) {
+      const required = resolved.required ?? [];
+      return Object.fromEntries(
+        Object.entries(current as Record<string, unknown>)
+          .filter(([key]) => required.includes(key) || !resolved.properties![key])
+          .map(([key, item]) => [key, resolved.properties![key] ? omit(item, resolved.properties![key]) : item])
+      );
+    }
+    return current;
+  };
+
+  return omit(value, schema) as T;
+}
@@ -0,0 +1,179 @@
+/**
+ * Edge-case variants derived from full mock data
+ */
+
+import { isCopyString } from './locale';
+import { omitOptionalFields, type MockSchema } from './mockSchema';
+
+/**
+ * Names of the edge-case variants derived by `createMockData`
+ */
+export type MockVariantName =
+  | 'singleItem'
+  | 'longStrings'
+  | 'unicode'
+  | 'missingOptional'
+  | 'nulls'
+  | 'hugeNumbers'
+  | 'brokenImages'
+  | 'oversizedArrays';
+
+/**
+ * Labels for variants in the data source dropdown
+ */
+export const MOCK_VARIANT_LABELS: Record<MockVariantName, string> = {
+  singleItem: 'single item',
+  longStrings: 'long strings',
+  unicode: 'unicode & RTL',
+  missingOptional: 'missing optional fields',
+  nulls: 'nulls',
+  hugeNumbers: 'huge numbers',
+  brokenImages: 'broken images',
+  oversizedArrays: 'oversized arrays',
+};
+
+/** Items in each array of the `oversizedArrays` variant */
+const OVERSIZED_LENGTH = 200;
+
+/** Fields that identify an item and are kept by `missingOptional` and `nulls` */
+const IDENTITY_KEYS = ['id', 'key', 'name', 'title'];
+
+const IMAGE_KEY_PATTERN = /(image|img|thumbnail|avatar|photo|icon|logo|picture|cover|banner)/i;
+const IMAGE_URL_PATTERN = /^(https?:)?\/\/.+\.(png|jpe?g|gif|webp|svg|avif)(\?.*)?$/i;
+
+/** Resolves nowhere - the `.invalid` TLD is reserved */
+const BROKEN_IMAGE_URL = 'https://broken-image.invalid/missing.png';
+
+const UNICODE_SAMPLES = [
+  'مطعم الذواقة في وسط المدينة',
+  '🍕🔥 Ñoño’s “Zoë” café 👨‍👩‍👧‍👦',
+  '北京烤鸭店 · 東京ラーメン · 서울 식당',
+  'שלום עולם — naïve façade',
+];
+
+type Path = (string | number)[];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Rebuild a value, letting `visit` replace any node
+ * `visit` returns `undefined` to recurse into the node unchanged.
+ */
+function transform(value: unknown, visit: (value: unknown, path: Path) => unknown, path: Path = []): unknown {
+  const replaced = visit(value, path);
+  if (replaced !== undefined) {
+    return replaced;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => transform(item, visit, [...path, index]));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, transform(item, visit, [...path, key])])
+    );
+  }
+  return value;
+}
+
+/** Property name a value is stored under, if any */
+const keyOf = (path: Path) => {
+  const last = path[path.length - 1];
+  return typeof last === 'string' ? last : '';
+};
+
+/** Whether the path is inside an array (an item or one of its fields) */
+const isInArray = (path: Path) => path.some(segment => typeof segment === 'number');
+
+/**
+ * Resize the outermost arrays, keeping nested arrays as they are
+ */
+function resizeArrays(data: unknown, resize: (items: unknown[]) => unknown[]): unknown {
+  return transform(data, value => (Array.isArray(value) ? resize(value) : undefined));
+}
+
+const variantBuilders: Record<MockVariantName, (data: unknown, schema?: MockSchema) => unknown> = {
+  singleItem: data => resizeArrays(data, items => items.slice(0, 1)),
+
+  longStrings: data => transform(data, value => {
+    if (typeof value !== 'string' || !isCopyString(value)) return undefined;
+    const repeated = Array.from({ length: Math.ceil(240 / (value.length + 1)) }, () => value).join(' ');
+    return `${repeated} ${'Unbreakable'.repeat(8)}`;
+  }),
+
+  unicode: data => {
+    let index = 0;
+    return transform(data, value => {
+      if (typeof value !== 'string' || !isCopyString(value)) return undefined;
+      return `${UNICODE_SAMPLES[index++ % UNICODE_SAMPLES.length]} ${value}`;
+    });
+  },
+
+  missingOptional: (data, schema) => {
+    if (schema) {
+      return omitOptionalFields(data, schema);
+    }
+    // Without a schema, every non-identity field of an array item is treated as optional
+    return transform(data, (value, path) => {
+      if (!isPlainObject(value) || typeof path[path.length - 1] !== 'number') return undefined;
+      return Object.fromEntries(Object.entries(value).filter(([key]) => IDENTITY_KEYS.includes(key)));
+    });
+  },
+
+  nulls: data => transform(data, (value, path) => {
+    if (value === null || typeof value === 'object' || path.length === 0) return undefined;
+    return IDENTITY_KEYS.includes(keyOf(path)) && isInArray(path) ? value : null;
+  }),
+
+  hugeNumbers: data => transform(data, value => {
+    if (typeof value !== 'number') return undefined;
+    return Number.isInteger(value) ? Number.MAX_SAFE_INTEGER : 123456789.98765432;
+  }),
+
+  brokenImages: data => transform(data, (value, path) => {
+    if (typeof value !== 'string') return undefined;
+    const isImage = IMAGE_URL_PATTERN.test(value) || (IMAGE_KEY_PATTERN.test(keyOf(path)) && /^(https?:)?\/\//.test(value));
+    return isImage ? BROKEN_IMAGE_URL : value;
+  }),
+
+  oversizedArrays: data => resizeArrays(data, items => {
+    if (items.length === 0) return items;
+    return Array.from({ length: OVERSIZED_LENGTH }, (_, index) => {
+      const item = items[index % items.length];
+      const copy = Math.floor(index / items.length);
+      // Keep ids unique across copies
+      if (copy > 0 && isPlainObject(item) && (typeof item.id === 'string' || typeof item.id === 'number')) {
+        return { ...item, id: `${item.id}-${copy}` };
+      }
+      return item;
+    });
+  }),
+};
+
+/**
+ * Derive edge-case variants from full mock data
+ * Variants identical to the full data (e.g. `singleItem` without arrays) are skipped.
+ *
+ * @param data - Full mock data
+ * @param names - Variants to derive (all by default)
+ * @param schema - JSON Schema used to tell optional fields apart
+ */
+export function deriveMockVariants<T>(
+  data: T,
+  names: MockVariantName[] = Object.keys(variantBuilders) as MockVariantName[],
+  schema?: MockSchema
+): Partial<Record<MockVariantName, T>> {
+  if (data === null || typeof data !== 'object') {
+    return {};
+  }
+
+  const original = JSON.stringify(data);
+  const variants: Partial<Record<MockVariantName, T>> = {};
+  for (const name of names) {
+    const variant = variantBuilders[name](data, schema) as T;
+    if (JSON.stringify(variant) !== original) {
+      variants[name] = variant;
+    }
+  }
+  return variants;
+}
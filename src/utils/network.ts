@@ -0,0 +1,79 @@
+import type { NetworkProfile } from '../types';
+
+/** Error name for requests that exceed the profile's `timeout` */
+export const TIMEOUT_ERROR = 'TimeoutError';
+
+/** Error name for requests cancelled by a newer load */
+const ABORT_ERROR = 'AbortError';
+
+const namedError = (name: string, message: string) => Object.assign(new Error(message), { name });
+
+/**
+ * Pick the latency of one request
+ */
+function pickLatency(profile: NetworkProfile): number {
+  if (!Array.isArray(profile.latency)) {
+    return profile.latency;
+  }
+  const [min, max] = profile.latency;
+  return Math.round(min + Math.random() * (max - min));
+}
+
+/**
+ * Run a request under simulated network conditions
+ * The request starts once the latency has passed; failures, timeouts and aborts reject.
+ *
+ * @param profile - Network conditions to simulate
+ * @param request - Loads the response
+ * @param signal - Cancels the request (rejects with an `AbortError`)
+ * @throws `TimeoutError` when the request takes longer than `profile.timeout`
+ */
+export function simulateRequest<T>(
+  profile: NetworkProfile,
+  request: () => Promise<T> | T,
+  signal: AbortSignal
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    let settled = false;
+
+    const settle = (finish: () => void) => {
+      if (settled) return;
+      settled = true;
+      timers.forEach(clearTimeout);
+      signal.removeEventListener('abort', handleAbort);
+      finish();
+    };
+    const handleAbort = () => settle(() => reject(namedError(ABORT_ERROR, 'Request cancelled by a newer load')));
+
+    if (signal.aborted) {
+      handleAbort();
+      return;
+    }
+    signal.addEventListener('abort', handleAbort);
+
+    if (profile.timeout !== undefined) {
+      const timeout = profile.timeout;
+      timers.push(setTimeout(() => {
+        settle(() => reject(namedError(TIMEOUT_ERROR, `Request timed out after ${timeout}ms`)));
+      }, timeout));
+    }
+
+    const latency = pickLatency(profile);
+    // Infinite latency never responds (only a timeout or abort settles it)
+    if (!Number.isFinite(latency)) return;
+
+    timers.push(setTimeout(async () => {
+      if (profile.failureRate && Math.random() < profile.failureRate) {
+        settle(() => reject(new Error(`Network request failed (${profile.label})`)));
+        return;
+      }
+      try {
+        const response = await request();
+        settle(() => resolve(response));
+      } catch (error) {
+        settle(() => reject(error));
+      }
+    }, latency));
+  });
+}
@@ -0,0 +1,53 @@
+import type { OpenExternalResult } from '../types';
+
+/**
+ * Whether a hostname is covered by an allowlist entry
+ * Entries may be bare domains (`example.com`, also matching subdomains),
+ * `*.example.com` wildcards (subdomains only) or full origins.
+ */
+function matchesDomain(hostname: string, entry: string): boolean {
+  let domain = entry.trim().toLowerCase();
+  if (domain.includes('://')) {
+    try {
+      domain = new URL(domain).hostname;
+    } catch {
+      return false;
+    }
+  }
+  if (domain.startsWith('*.')) {
+    return hostname.endsWith(domain.slice(1));
+  }
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Check a link passed to `openExternal` against the host's rules
+ *
+ * @param href - The requested link
+ * @param allowedDomains - Optional domain allowlist
+ * @returns The parsed URL when allowed, otherwise a `blocked` or `invalid` result
+ */
+export function checkExternalUrl(
+  href: string,
+  allowedDomains?: string[]
+): { allowed: true; url: URL } | { allowed: false; result: OpenExternalResult } {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return { allowed: false, result: { href, outcome: 'invalid', reason: 'Malformed URL - openExternal needs an absolute URL' } };
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return { allowed: false, result: { href, outcome: 'invalid', reason: `Unsupported protocol "${url.protocol}"` } };
+  }
+
+  if (allowedDomains && !allowedDomains.some(entry => matchesDomain(url.hostname.toLowerCase(), entry))) {
+    return {
+      allowed: false,
+      result: { href, outcome: 'blocked', reason: `Domain "${url.hostname}" is not in allowedDomains` },
+    };
+  }
+
+  return { allowed: true, url };
+}
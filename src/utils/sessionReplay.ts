@@ -0,0 +1,87 @@
+import type { BridgeMethod, SessionEvent, SessionRecording } from '../types';
+
+/**
+ * Validate a parsed session recording file
+ * @throws If the value is not a session recording
+ */
+export function parseSessionRecording(value: unknown): SessionRecording {
+  const recording = value as SessionRecording;
+  if (
+    recording === null ||
+    typeof recording !== 'object' ||
+    recording.version !== 1 ||
+    !Array.isArray(recording.events) ||
+    typeof recording.initial?.controls !== 'object'
+  ) {
+    throw new Error('Not a devtools session recording (expected version 1 with initial state and events)');
+  }
+  return recording;
+}
+
+/**
+ * Answers bridge calls made during a replay with the recorded results
+ * Calls are matched in order, by method and arguments; when the arguments
+ * differ, the next recorded call of the same method is used.
+ */
+export function createBridgeResponder(events: SessionEvent[]) {
+  const pending = events.filter(
+    (event): event is Extract<SessionEvent, { type: 'bridgeCall' }> => event.type === 'bridgeCall'
+  );
+
+  return (method: BridgeMethod, args: unknown): unknown => {
+    const key = JSON.stringify(args);
+    let index = pending.findIndex(call => call.method === method && JSON.stringify(call.args) === key);
+    if (index === -1) {
+      index = pending.findIndex(call => call.method === method);
+    }
+    if (index === -1) {
+      throw new Error(`No recorded ${method} call left to replay`);
+    }
+
+    const [call] = pending.splice(index, 1);
+    if (call.error !== undefined) {
+      throw new Error(call.error);
+    }
+    return call.result;
+  };
+}
+
+export interface SessionPlaybackOptions {
+  /** Apply an event */
+  onEvent: (event: SessionEvent) => void;
+  /** Number of events applied so far */
+  onProgress: (played: number) => void;
+  /** Every event was applied */
+  onEnd: () => void;
+}
+
+/**
+ * Apply the recorded events at their original time offsets
+ * Bridge calls are not applied - they answer the widget's own calls (see `createBridgeResponder`).
+ *
+ * @returns A function that stops the playback
+ */
+export function playSession(recording: SessionRecording, { onEvent, onProgress, onEnd }: SessionPlaybackOptions): () => void {
+  const events = recording.events.filter(event => event.type !== 'bridgeCall');
+  const startedAt = Date.now();
+  let played = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const scheduleNext = () => {
+    if (played === events.length) {
+      onEnd();
+      return;
+    }
+    timer = setTimeout(() => {
+      // Apply every event that is due, so events recorded in the same millisecond stay in order
+      while (played < events.length && events[played].t <= Date.now() - startedAt) {
+        onEvent(events[played++]);
+      }
+      onProgress(played);
+      scheduleNext();
+    }, Math.max(0, events[played].t - (Date.now() - startedAt)));
+  };
+
+  scheduleNext();
+  return () => clearTimeout(timer);
+}
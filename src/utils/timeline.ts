@@ -0,0 +1,157 @@
+import type { Timeline, TimelineStep } from '../types';
+import { splitToolResult } from './toolResults';
+
+/**
+ * Playback state of a timeline
+ */
+export interface TimelineStatus {
+  /** Whether steps are applied as their time comes */
+  playing: boolean;
+  /** Number of steps applied so far */
+  applied: number;
+  /** Number of steps known so far (grows while an async iterable yields) */
+  total: number;
+  /** Whether every step has been received */
+  complete: boolean;
+}
+
+/**
+ * Controls for a playing timeline
+ */
+export interface TimelinePlayer {
+  play: () => void;
+  pause: () => void;
+  /** Pause and apply the next step right away */
+  step: () => void;
+  /** Stop playback and stop consuming the timeline */
+  stop: () => void;
+}
+
+export interface TimelinePlayerOptions {
+  /** Apply a step */
+  onStep: (step: TimelineStep, index: number) => void;
+  /** Playback state changed */
+  onStatus: (status: TimelineStatus) => void;
+  /** An async iterable threw */
+  onError?: (error: unknown) => void;
+}
+
+const isAsyncIterable = (data: unknown): data is AsyncIterable<unknown> =>
+  data !== null && typeof data === 'object' && Symbol.asyncIterator in data;
+
+const isTimelineStep = (item: unknown): item is TimelineStep =>
+  item !== null &&
+  typeof item === 'object' &&
+  typeof (item as TimelineStep).at === 'number' &&
+  ('toolOutput' in item || 'toolResponseMetadata' in item);
+
+/**
+ * Whether loaded data is a timeline: an async iterable, or a non-empty
+ * array of `{ at, toolOutput }` / `{ at, toolResponseMetadata }` steps
+ */
+export function isTimeline(data: unknown): data is Timeline {
+  return isAsyncIterable(data) || (Array.isArray(data) && data.length > 0 && data.every(isTimelineStep));
+}
+
+/**
+ * Play a timeline, applying each step at its time offset
+ * Values yielded by an async iterable become steps at the moment they arrive,
+ * so pausing holds them back until playback resumes or they are stepped through.
+ * Playback starts immediately.
+ */
+export function playTimeline(timeline: Timeline, { onStep, onStatus, onError }: TimelinePlayerOptions): TimelinePlayer {
+  const steps: TimelineStep[] = Array.isArray(timeline) ? [...timeline].sort((a, b) => a.at - b.at) : [];
+  let complete = Array.isArray(timeline);
+  let applied = 0;
+  let playing = true;
+  let stopped = false;
+  // Timeline time elapsed before the current run, and when the current run started
+  let position = 0;
+  let resumedAt = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const clock = () => position + (playing ? Date.now() - resumedAt : 0);
+
+  const notify = () => {
+    if (!stopped) {
+      onStatus({ playing, applied, total: steps.length, complete });
+    }
+  };
+
+  const applyNext = () => {
+    const step = steps[applied];
+    position = Math.max(clock(), step.at);
+    resumedAt = Date.now();
+    onStep(step, applied++);
+  };
+
+  const schedule = () => {
+    clearTimeout(timer);
+    if (stopped || !playing) return;
+
+    if (applied < steps.length) {
+      timer = setTimeout(() => {
+        applyNext();
+        schedule();
+        notify();
+      }, Math.max(0, steps[applied].at - clock()));
+    } else if (complete) {
+      position = clock();
+      playing = false;
+    }
+  };
+
+  if (isAsyncIterable(timeline)) {
+    (async () => {
+      try {
+        for await (const data of timeline) {
+          if (stopped) return;
+          steps.push({ at: clock(), ...splitToolResult(data).globals });
+          schedule();
+          notify();
+        }
+      } catch (error) {
+        if (!stopped) onError?.(error);
+      }
+      complete = true;
+      schedule();
+      notify();
+    })();
+  }
+
+  schedule();
+  notify();
+
+  return {
+    play: () => {
+      if (stopped || playing || (complete && applied === steps.length)) return;
+      playing = true;
+      resumedAt = Date.now();
+      schedule();
+      notify();
+    },
+    pause: () => {
+      if (stopped || !playing) return;
+      position = clock();
+      playing = false;
+      schedule();
+      notify();
+    },
+    step: () => {
+      if (stopped) return;
+      if (playing) {
+        position = clock();
+        playing = false;
+        schedule();
+      }
+      if (applied < steps.length) {
+        applyNext();
+      }
+      notify();
+    },
+    stop: () => {
+      stopped = true;
+      clearTimeout(timer);
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import type { ToolHandler, ToolHandlerConfig, ToolHandlerContext, ToolHandlers } from '../types';
+import { splitToolResult } from './toolResults';
+
+/**
+ * Normalize a tool handler to its config form
+ */
+export function toToolHandlerConfig(handler: ToolHandler): ToolHandlerConfig {
+  return typeof handler === 'function' ? { handler } : handler;
+}
+
+/**
+ * Run the handler registered for a tool, applying its simulation options
+ *
+ * @param name - Tool name passed to `callTool`
+ * @param args - Tool arguments passed to `callTool`
+ * @param handlers - Registered tool handlers
+ * @param context - Globals snapshot and setter for the handler
+ * @returns The handler result
+ * @throws If no handler is registered for `name` or the handler is configured to fail
+ */
+export async function runToolHandler(
+  name: string,
+  args: Record<string, unknown>,
+  handlers: ToolHandlers,
+  context: ToolHandlerContext
+): Promise<unknown> {
+  const entry = handlers[name];
+  if (!entry) {
+    const known = Object.keys(handlers);
+    throw new Error(
+      `Unknown tool "${name}". Registered tools: ${known.length > 0 ? known.join(', ') : '(none)'}`
+    );
+  }
+
+  const config = toToolHandlerConfig(entry);
+
+  if (config.latency && config.latency > 0) {
+    await new Promise(resolve => setTimeout(resolve, config.latency));
+  }
+
+  if (config.fail) {
+    throw new Error(
+      typeof config.fail === 'string' ? config.fail : `Simulated failure for tool "${name}"`
+    );
+  }
+
+  const result = await config.handler(args, context);
+
+  if (config.updateToolOutput) {
+    context.setGlobals(splitToolResult(result).globals);
+  }
+
+  return result;
+}
@@ -0,0 +1,63 @@
+import type { OpenAiGlobals } from '@ainativekit/ui';
+import type { ToolContentBlock, ToolResult } from '../types';
+
+/** Marks objects created with `toolResult()` */
+const TOOL_RESULT_MARKER = Symbol.for('@ainativekit/devtools.toolResult');
+
+/**
+ * Wrap an MCP-style tool result so it is routed to the matching globals
+ * even without `structuredContent` (e.g. `_meta`-only results)
+ *
+ * @example
+ * ```typescript
+ * dataLoaders: {
+ *   metaOnly: () => toolResult({ _meta: { nextCursor: 'abc' } })
+ * }
+ * ```
+ */
+export function toolResult<TOutput = unknown, TMeta = Record<string, unknown>>(
+  result: ToolResult<TOutput, TMeta>
+): ToolResult<TOutput, TMeta> {
+  return Object.defineProperty({ ...result }, TOOL_RESULT_MARKER, { value: true });
+}
+
+/**
+ * Whether loaded data is a tool result: created with `toolResult()`, a plain
+ * object with a `structuredContent` key, or an MCP error (`isError` with `content`)
+ */
+export function isToolResult(data: unknown): data is ToolResult {
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    return false;
+  }
+  const result = data as ToolResult;
+  return (
+    TOOL_RESULT_MARKER in data ||
+    'structuredContent' in data ||
+    (result.isError === true && Array.isArray(result.content))
+  );
+}
+
+/**
+ * Split loaded data into the globals it sets
+ * Plain data sets both `toolOutput` and `toolResponseMetadata`, as before tool results.
+ */
+export function splitToolResult(data: unknown): {
+  globals: Pick<OpenAiGlobals, 'toolOutput' | 'toolResponseMetadata'>;
+  content?: ToolContentBlock[];
+} {
+  if (!isToolResult(data)) {
+    return {
+      globals: {
+        toolOutput: data as OpenAiGlobals['toolOutput'],
+        toolResponseMetadata: data as OpenAiGlobals['toolResponseMetadata'],
+      },
+    };
+  }
+  return {
+    globals: {
+      toolOutput: (data.structuredContent ?? null) as OpenAiGlobals['toolOutput'],
+      toolResponseMetadata: (data._meta ?? null) as OpenAiGlobals['toolResponseMetadata'],
+    },
+    content: data.content,
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Persistence for Apps SDK widget state (`window.openai.setWidgetState`)
+ *
+ * ChatGPT keeps widget state per widget instance across renders. DevContainer
+ * mirrors that by storing each widget's payload in localStorage keyed by widget id.
+ */
+
+const STORAGE_PREFIX = 'devtools.widgetState.';
+
+/**
+ * Load the persisted widget state for a widget
+ * @returns The stored payload, or null when nothing is stored or it can't be parsed
+ */
+export function loadWidgetState(widgetId: string): Record<string, unknown> | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + widgetId);
+    return raw ? JSON.parse(raw) : null;
+  } catch (error) {
+    console.warn(`⚠️ Ignoring unreadable widget state for "${widgetId}":`, error);
+    return null;
+  }
+}
+
+/**
+ * Persist the widget state for a widget (null removes it)
+ */
+export function saveWidgetState(widgetId: string, state: Record<string, unknown> | null): void {
+  if (state === null || state === undefined) {
+    localStorage.removeItem(STORAGE_PREFIX + widgetId);
+    return;
+  }
+  try {
+    localStorage.setItem(STORAGE_PREFIX + widgetId, JSON.stringify(state));
+  } catch (error) {
+    console.warn(`⚠️ Could not persist widget state for "${widgetId}":`, error);
+  }
+}
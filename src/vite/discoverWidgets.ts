@@ -0,0 +1,133 @@
+/**
+ * Widget discovery
+ * Scans a widgets directory by convention and generates the module that
+ * exports its `WidgetDefinition[]`.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+/**
+ * Optional `widget.json` next to a widget component
+ */
+export interface WidgetMetadata {
+  /** Display name (defaults to the folder name in title case) */
+  name?: string;
+  description?: string;
+  icon?: string;
+}
+
+/**
+ * A widget folder found by `discoverWidgets`
+ */
+export interface DiscoveredWidget {
+  /** Folder name */
+  id: string;
+  /** Absolute path of the component file */
+  component: string;
+  /** Absolute path of the scenarios module, if any */
+  scenarios?: string;
+  metadata: WidgetMetadata;
+}
+
+export interface DiscoverWidgetsOptions {
+  /** Component file names to look for, in order (default `index.tsx`, `index.jsx`, `index.ts`, `index.js`) */
+  componentFiles?: string[];
+  /** Scenario module names to look for, in order (default `scenarios.ts`, `scenarios.tsx`, `scenarios.js`, `scenarios.jsx`) */
+  scenarioFiles?: string[];
+}
+
+const DEFAULT_COMPONENT_FILES = ['index.tsx', 'index.jsx', 'index.ts', 'index.js'];
+const DEFAULT_SCENARIO_FILES = ['scenarios.ts', 'scenarios.tsx', 'scenarios.js', 'scenarios.jsx'];
+
+/** Metadata file read from each widget folder */
+export const WIDGET_METADATA_FILE = 'widget.json';
+
+// "photo-albums" -> "Photo Albums"
+const toTitle = (id: string) =>
+  id.split(/[-_\s]+/).filter(Boolean).map(word => word[0].toUpperCase() + word.slice(1)).join(' ');
+
+// Forward slashes, so generated imports work on Windows too
+const toImportPath = (file: string) => file.replace(/\\/g, '/');
+
+function readMetadata(folder: string): WidgetMetadata {
+  const file = join(folder, WIDGET_METADATA_FILE);
+  if (!existsSync(file)) return {};
+  try {
+    const metadata = JSON.parse(readFileSync(file, 'utf8'));
+    return metadata !== null && typeof metadata === 'object' ? metadata : {};
+  } catch (error) {
+    console.warn(`⚠️ Ignored invalid ${file}:`, error instanceof Error ? error.message : error);
+    return {};
+  }
+}
+
+/**
+ * Find widgets in a directory
+ * Every direct subfolder with a component file is a widget, identified by the
+ * folder name. Folders starting with `.` or `_` are skipped.
+ *
+ * @param dir - Absolute path of the widgets directory
+ */
+export function discoverWidgets(dir: string, options: DiscoverWidgetsOptions = {}): DiscoveredWidget[] {
+  const { componentFiles = DEFAULT_COMPONENT_FILES, scenarioFiles = DEFAULT_SCENARIO_FILES } = options;
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && !/^[._]/.test(entry.name))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap((entry): DiscoveredWidget[] => {
+      const folder = join(dir, entry.name);
+      const component = componentFiles.find(file => existsSync(join(folder, file)));
+      if (!component) return [];
+      const scenarios = scenarioFiles.find(file => existsSync(join(folder, file)));
+      return [{
+        id: entry.name,
+        component: join(folder, component),
+        ...(scenarios ? { scenarios: join(folder, scenarios) } : {}),
+        metadata: readMetadata(folder),
+      }];
+    });
+}
+
+/**
+ * Generate the module exporting the widget definitions
+ * Components are the default export of their file; scenarios are the default
+ * or `scenarios` export of the scenarios module, as a `ScenarioCollection` or
+ * a plain array of scenarios.
+ */
+export function generateWidgetsModule(widgets: DiscoveredWidget[]): string {
+  const imports = widgets.flatMap((widget, index) => [
+    `import Component${index} from ${JSON.stringify(toImportPath(widget.component))};`,
+    ...(widget.scenarios ? [`import * as scenarios${index} from ${JSON.stringify(toImportPath(widget.scenarios))};`] : []),
+  ]);
+
+  const definitions = widgets.map((widget, index) => {
+    const definition = {
+      id: widget.id,
+      name: widget.metadata.name ?? toTitle(widget.id),
+      ...(widget.metadata.description ? { description: widget.metadata.description } : {}),
+      ...(widget.metadata.icon ? { icon: widget.metadata.icon } : {}),
+    };
+    const scenarios = widget.scenarios
+      ? `, scenarios: toCollection(scenarios${index})`
+      : '';
+    return `  { ...${JSON.stringify(definition)}, component: Component${index}${scenarios} },`;
+  });
+
+  return [
+    ...imports,
+    '',
+    'const toCollection = (module) => {',
+    '  const value = module.default ?? module.scenarios;',
+    '  return Array.isArray(value) ? { scenarios: value } : value;',
+    '};',
+    '',
+    'export const widgets = [',
+    ...definitions,
+    '];',
+    '',
+    'export default widgets;',
+    '',
+  ].join('\n');
+}
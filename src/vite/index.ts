@@ -0,0 +1,9 @@
+/**
+ * Vite plugin exports
+ * Runs in Node - import from `@ainativekit/devtools/vite` in `vite.config.ts` only.
+ */
+
+export { widgetPortalPlugin, VIRTUAL_WIDGETS_MODULE } from './widgetPortalPlugin';
+export type { WidgetPortalPluginOptions } from './widgetPortalPlugin';
+export { discoverWidgets, generateWidgetsModule, WIDGET_METADATA_FILE } from './discoverWidgets';
+export type { DiscoveredWidget, DiscoverWidgetsOptions, WidgetMetadata } from './discoverWidgets';
@@ -0,0 +1,87 @@
+/**
+ * Vite plugin for WidgetPortal widget discovery
+ */
+
+import { resolve, sep } from 'node:path';
+import type { Plugin, ViteDevServer } from 'vite';
+import { discoverWidgets, generateWidgetsModule, WIDGET_METADATA_FILE } from './discoverWidgets';
+import type { DiscoverWidgetsOptions } from './discoverWidgets';
+
+/** Import this module to get the discovered `WidgetDefinition[]` */
+export const VIRTUAL_WIDGETS_MODULE = 'virtual:ainativekit-widgets';
+const RESOLVED_WIDGETS_MODULE = `\0${VIRTUAL_WIDGETS_MODULE}`;
+
+export interface WidgetPortalPluginOptions extends DiscoverWidgetsOptions {
+  /** Widgets directory, relative to the Vite root (default `src/widgets`) */
+  dir?: string;
+}
+
+/**
+ * Generate `WidgetPortal` widgets from a directory
+ *
+ * Each folder in `dir` is a widget: a component file (default export), an
+ * optional `scenarios.ts` and an optional `widget.json` with `name`,
+ * `description` and `icon`. The list is exposed as `virtual:ainativekit-widgets`
+ * and the page reloads when widget folders are added or removed.
+ *
+ * @example
+ * ```ts
+ * // vite.config.ts
+ * import { widgetPortalPlugin } from '@ainativekit/devtools/vite';
+ *
+ * export default defineConfig({
+ *   plugins: [react(), widgetPortalPlugin({ dir: 'src/widgets' })],
+ * });
+ * ```
+ */
+export function widgetPortalPlugin(options: WidgetPortalPluginOptions = {}): Plugin {
+  const { dir = 'src/widgets', ...discoverOptions } = options;
+  let widgetsDir = resolve(dir);
+  let code = '';
+
+  const generate = () => {
+    code = generateWidgetsModule(discoverWidgets(widgetsDir, discoverOptions));
+    return code;
+  };
+
+  // Regenerate on structural changes; edits inside a widget are left to HMR
+  const handleChange = (server: ViteDevServer, file: string) => {
+    if (!resolve(file).startsWith(widgetsDir + sep)) return;
+    const previous = code;
+    if (generate() === previous) return;
+
+    const module = server.moduleGraph.getModuleById(RESOLVED_WIDGETS_MODULE);
+    if (module) {
+      server.moduleGraph.invalidateModule(module);
+    }
+    console.log('🔄 [@ainativekit/devtools] Widgets changed, reloading');
+    server.ws.send({ type: 'full-reload' });
+  };
+
+  return {
+    name: 'ainativekit-widget-portal',
+
+    configResolved(config) {
+      widgetsDir = resolve(config.root, dir);
+    },
+
+    resolveId(id) {
+      return id === VIRTUAL_WIDGETS_MODULE ? RESOLVED_WIDGETS_MODULE : undefined;
+    },
+
+    load(id) {
+      return id === RESOLVED_WIDGETS_MODULE ? generate() : undefined;
+    },
+
+    configureServer(server) {
+      server.watcher.add(widgetsDir);
+      for (const event of ['add', 'unlink', 'addDir', 'unlinkDir'] as const) {
+        server.watcher.on(event, file => handleChange(server, file));
+      }
+      // Metadata is inlined into the generated module
+      server.watcher.on('change', file => {
+        if (file.endsWith(WIDGET_METADATA_FILE)) handleChange(server, file);
+      });
+    },
+  };
+}
@@ -1,7 +1,12 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    portal: 'src/portal/index.ts',
+    mock: 'src/mock/index.ts',
+    vite: 'src/vite/index.ts',
+  },
   format: ['esm', 'cjs'],
   dts: true,
   splitting: false,
@@ -0,0 +1,12 @@
+/**
+ * Types for the module generated by `widgetPortalPlugin`
+ * Add `"types": ["@ainativekit/devtools/vite-client"]` to tsconfig, or
+ * `/// <reference types="@ainativekit/devtools/vite-client" />` to a declaration file.
+ */
+
+declare module 'virtual:ainativekit-widgets' {
+  import type { WidgetDefinition } from '@ainativekit/devtools/portal';
+
+  export const widgets: WidgetDefinition[];
+  export default widgets;
+}